@@ -0,0 +1,174 @@
+import { readFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { DEFAULT_REGISTRY, type RegistryConfig } from './types.js';
+
+/**
+ * Environment variable holding a token for private registries
+ */
+export const TOKEN_ENV = 'HELP_ME_AI_TOKEN';
+
+/**
+ * Environment variable holding a token for GitHub-hosted content
+ */
+export const GITHUB_TOKEN_ENV = 'GITHUB_TOKEN';
+
+/**
+ * Prefix of the environment variables a registry's `tokenEnv` and `headers` may read.
+ * Registries come from the committed project configuration: without it, a cloned repository
+ * could send any variable of the user's environment to a server of its choice.
+ */
+export const REGISTRY_ENV_PREFIX = 'HELP_ME_AI_';
+
+const ENV_REFERENCE = /\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+const GITHUB_HOSTS = new Set(['github.com', 'raw.githubusercontent.com', 'api.github.com', 'codeload.github.com']);
+
+interface NetrcEntry {
+  login?: string;
+  password?: string;
+}
+
+/**
+ * Build the headers that authenticate a request to a registry.
+ * The registry owning a URL is the one with the longest matching URL prefix, else the
+ * first one on the same origin. Credentials come from, in order:
+ * the registry's `headers`, the variable named by its `tokenEnv` (both limited to HELP_ME_AI_*
+ * variables), HELP_ME_AI_TOKEN
+ * (any registry but the public one), GITHUB_TOKEN (GitHub URLs), then ~/.netrc.
+ */
+export function getAuthHeaders(
+  url: string,
+  registries: RegistryConfig[],
+  env: NodeJS.ProcessEnv = process.env
+): Record<string, string> {
+  let target: URL;
+  try {
+    target = new URL(url);
+  } catch {
+    return {};
+  }
+  if (target.protocol !== 'https:' && target.protocol !== 'http:') {
+    return {};
+  }
+
+  const registry = findRegistry(url, target, registries);
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(registry?.headers ?? {})) {
+    headers[name] = expandEnv(value, env);
+  }
+  if (Object.keys(headers).some((name) => name.toLowerCase() === 'authorization')) {
+    return headers;
+  }
+
+  let token: string | undefined;
+  if (registry?.tokenEnv) {
+    token = isRegistryEnv(registry.tokenEnv) ? env[registry.tokenEnv] : undefined;
+  } else {
+    // Never hand a private registry token to the public registry
+    if (registry && registry.url !== DEFAULT_REGISTRY.url) token = env[TOKEN_ENV];
+    if (!token && GITHUB_HOSTS.has(target.hostname)) token = env[GITHUB_TOKEN_ENV];
+  }
+  if (token) {
+    headers.Authorization = `Bearer ${token}`;
+    return headers;
+  }
+
+  const netrc = readNetrc(env);
+  const credentials = netrc.machines[target.hostname] ?? netrc.fallback;
+  if (credentials?.password) {
+    const basic = Buffer.from(`${credentials.login ?? ''}:${credentials.password}`).toString('base64');
+    headers.Authorization = `Basic ${basic}`;
+  }
+
+  return headers;
+}
+
+/**
+ * A hint on how to authenticate, for errors on a URL fetched without credentials
+ */
+export function getAuthHint(url: string): string {
+  let hostname = '';
+  try {
+    hostname = new URL(url).hostname;
+  } catch {
+    // Not a URL: fall back to the generic hint
+  }
+  return GITHUB_HOSTS.has(hostname)
+    ? `set ${GITHUB_TOKEN_ENV} or ${TOKEN_ENV} if the repository is private`
+    : `set ${TOKEN_ENV}, the registry's "tokenEnv" or "headers", or add the host to ~/.netrc`;
+}
+
+function findRegistry(url: string, target: URL, registries: RegistryConfig[]): RegistryConfig | undefined {
+  const byPrefix = registries
+    .filter((registry) => url.startsWith(`${registry.url.replace(/\/+$/, '')}/`))
+    .sort((a, b) => b.url.length - a.url.length)[0];
+  if (byPrefix) {
+    return byPrefix;
+  }
+  return registries.find((registry) => {
+    try {
+      return new URL(registry.url).origin === target.origin;
+    } catch {
+      return false;
+    }
+  });
+}
+
+/**
+ * Whether a registry may read an environment variable
+ */
+export function isRegistryEnv(name: string): boolean {
+  return name.startsWith(REGISTRY_ENV_PREFIX);
+}
+
+/**
+ * Names of the `${NAME}` environment variables a header value refers to
+ */
+export function getEnvReferences(value: string): string[] {
+  return [...value.matchAll(ENV_REFERENCE)].map((match) => match[1]);
+}
+
+/**
+ * Replace `${NAME}` with environment variables, so secrets stay out of committed configuration.
+ * Variables without the HELP_ME_AI_ prefix are replaced with nothing.
+ */
+function expandEnv(value: string, env: NodeJS.ProcessEnv): string {
+  return value.replace(ENV_REFERENCE, (_, name: string) => (isRegistryEnv(name) ? env[name] ?? '' : ''));
+}
+
+/**
+ * Parse $NETRC or ~/.netrc into credentials per host (`default` applies to any host)
+ */
+function readNetrc(env: NodeJS.ProcessEnv): { machines: Record<string, NetrcEntry>; fallback?: NetrcEntry } {
+  let content: string;
+  try {
+    content = readFileSync(env.NETRC || join(homedir(), '.netrc'), 'utf-8');
+  } catch {
+    return { machines: {} };
+  }
+
+  const machines: Record<string, NetrcEntry> = {};
+  const tokens = content.replace(/#.*$/gm, '').split(/\s+/).filter(Boolean);
+  let current: NetrcEntry | null = null;
+  let fallback: NetrcEntry | undefined;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token === 'machine') {
+      current = {};
+      machines[tokens[++i]] = current;
+    } else if (token === 'default') {
+      current = {};
+      fallback = current;
+    } else if (token === 'login' && current) {
+      current.login = tokens[++i];
+    } else if (token === 'password' && current) {
+      current.password = tokens[++i];
+    } else if (token === 'macdef') {
+      break;
+    }
+  }
+
+  return { machines, fallback };
+}
@@ -0,0 +1,174 @@
+import { readFile, writeFile, mkdir, readdir, rm } from 'node:fs/promises';
+import { createHash } from 'node:crypto';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+
+/**
+ * Metadata stored next to each cached response
+ */
+export interface CacheMetadata {
+  url: string;
+  etag?: string;
+  lastModified?: string;
+  /** When the content was last fetched or revalidated (ISO date) */
+  fetchedAt: string;
+}
+
+export interface CachedResponse {
+  body: Buffer;
+  metadata: CacheMetadata;
+}
+
+/**
+ * Default cache location: $XDG_CACHE_HOME/help-me-ai, or ~/.cache/help-me-ai
+ */
+export function getDefaultCacheDirectory(): string {
+  const base = process.env.XDG_CACHE_HOME || join(homedir(), '.cache');
+  return join(base, 'help-me-ai');
+}
+
+/**
+ * Human-readable age of a cached response, e.g. "3 hours"
+ */
+export function formatAge(since: Date, now = new Date()): string {
+  const minutes = Math.max(0, Math.round((now.getTime() - since.getTime()) / 60000));
+  if (minutes < 1) return 'less than a minute';
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return `${hours} hour${hours === 1 ? '' : 's'}`;
+  const days = Math.round(hours / 24);
+  return `${days} days`;
+}
+
+/**
+ * On-disk cache of registry responses (index and skill files), keyed by URL
+ */
+export class HttpCache {
+  constructor(private directory: string = getDefaultCacheDirectory()) {}
+
+  async get(url: string): Promise<CachedResponse | null> {
+    const key = this.key(url);
+    try {
+      const [body, metadata] = await Promise.all([
+        readFile(join(this.directory, `${key}.body`)),
+        readFile(join(this.directory, `${key}.json`), 'utf-8'),
+      ]);
+      return { body, metadata: JSON.parse(metadata) as CacheMetadata };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Store a response, with the validators needed to revalidate it later
+   */
+  async set(url: string, body: Buffer, headers: Headers): Promise<void> {
+    await this.write(url, body, {
+      url,
+      etag: headers.get('etag') ?? undefined,
+      lastModified: headers.get('last-modified') ?? undefined,
+      fetchedAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Mark a cached response as fresh after a 304 Not Modified
+   */
+  async touch(cached: CachedResponse): Promise<void> {
+    await this.write(cached.metadata.url, cached.body, {
+      ...cached.metadata,
+      fetchedAt: new Date().toISOString(),
+    });
+  }
+
+  private async write(url: string, body: Buffer, metadata: CacheMetadata): Promise<void> {
+    const key = this.key(url);
+    try {
+      await mkdir(this.directory, { recursive: true });
+      await writeFile(join(this.directory, `${key}.body`), body);
+      await writeFile(join(this.directory, `${key}.json`), JSON.stringify(metadata, null, 2));
+    } catch {
+      // The cache is an optimization: a read-only or full disk must not break the run
+    }
+  }
+
+  private key(url: string): string {
+    return createHash('sha256').update(url).digest('hex');
+  }
+}
+
+/**
+ * Directory of the content store, next to the manifest
+ */
+export const CONTENT_STORE_DIRECTORY = join('.help-me-ai', 'objects');
+
+/**
+ * Content-addressed store of the files help-me-ai wrote, kept as the base of three-way merges.
+ * It lives next to the manifest and is committed with it, so that other clones and CI can merge too;
+ * bases that earlier versions kept in the cache are still read.
+ */
+export class ContentStore {
+  private directory: string;
+  private cacheDirectory: string;
+
+  /**
+   * @param directory Directory of the manifest the stored files are recorded in
+   */
+  constructor(directory: string, cacheDirectory: string = getDefaultCacheDirectory()) {
+    this.directory = join(directory, CONTENT_STORE_DIRECTORY);
+    this.cacheDirectory = join(cacheDirectory, 'objects');
+  }
+
+  /**
+   * Store content and return its hash ("sha256-<base64>")
+   */
+  async put(content: string | Buffer): Promise<string> {
+    const hash = hashContent(content);
+    try {
+      await mkdir(this.directory, { recursive: true });
+      await writeFile(join(this.directory, this.key(hash)), content);
+    } catch {
+      // Without the stored base, local edits can still be kept or overwritten, only not merged
+    }
+    return hash;
+  }
+
+  /**
+   * Read content by hash, or null when it is not (or no longer) stored
+   */
+  async get(hash: string): Promise<Buffer | null> {
+    for (const directory of [this.directory, this.cacheDirectory]) {
+      try {
+        return await readFile(join(directory, this.key(hash)));
+      } catch {
+        // Not stored there
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Delete the stored content that is not in `hashes`, the ones the manifest still refers to
+   */
+  async retain(hashes: Iterable<string>): Promise<void> {
+    const keep = new Set([...hashes].map((hash) => this.key(hash)));
+    let names: string[];
+    try {
+      names = await readdir(this.directory);
+    } catch {
+      return;
+    }
+    await Promise.all(names.filter((name) => !keep.has(name)).map((name) => rm(join(this.directory, name), { force: true })));
+  }
+
+  private key(hash: string): string {
+    return Buffer.from(hash.replace(/^sha256-/, ''), 'base64').toString('hex');
+  }
+}
+
+/**
+ * Hash of a file's content, in the form recorded in the manifest
+ */
+export function hashContent(content: string | Buffer): string {
+  return `sha256-${createHash('sha256').update(content).digest('base64')}`;
+}
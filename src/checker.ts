@@ -0,0 +1,97 @@
+import { access } from 'node:fs/promises';
+import { join } from 'node:path';
+import { RegistryLoader } from './registries.js';
+import { SkillMatcher } from './matcher.js';
+import { SkillUpdater } from './updater.js';
+import { SkillPruner } from './pruner.js';
+import { getDefaultSelection } from './relationships.js';
+import type { SkillManifest } from './manifest.js';
+import type { ProjectFiles } from './project-files.js';
+import type { Config, Dependency, MatchedSkill } from './types.js';
+
+export type CheckStatus = 'ok' | 'missing' | 'outdated' | 'unmatched' | 'error';
+
+/**
+ * The state of one skill compared to what the project's dependencies call for
+ */
+export interface CheckFinding {
+  id: string;
+  name: string;
+  status: CheckStatus;
+  message: string;
+}
+
+/**
+ * Compare the skills a project should have with the ones installed on disk
+ */
+export class SkillChecker {
+  constructor(
+    private config: Config,
+    private manifest: SkillManifest
+  ) {}
+
+  async check(dependencies: Dependency[], files?: ProjectFiles): Promise<CheckFinding[]> {
+    const findings: CheckFinding[] = [];
+
+    const index = await new RegistryLoader(this.config).fetchIndex();
+    const matched = new SkillMatcher(this.config).matchSkills(dependencies, index, files);
+
+    // Skills that would be selected by default must be installed, unless the user declined them,
+    // and installed skills must be in every recorded location
+    const required = getDefaultSelection(matched, this.config.preselectThreshold);
+    const declined = this.manifest.getDeclined();
+    const isOptional = (match: MatchedSkill) => !required.includes(match) || declined.includes(match.skill.id);
+    for (const match of matched) {
+      const { skill, dependency } = match;
+      const entry = this.manifest.get(skill.id);
+      if (!entry && isOptional(match)) {
+        continue;
+      }
+      const trigger = `${dependency.name}@${dependency.version}`;
+      if (!entry) {
+        findings.push({ id: skill.id, name: skill.name, status: 'missing', message: `not installed (matches ${trigger})` });
+      } else if (!(await this.isOnDisk(entry.targets.map((t) => t.path)))) {
+        findings.push({ id: skill.id, name: skill.name, status: 'missing', message: 'recorded in the manifest but missing on disk' });
+      }
+    }
+
+    // Installed skills must be up to date with upstream
+    const updates = await new SkillUpdater(this.manifest, this.config).checkForUpdates();
+    for (const update of updates) {
+      const { id, name } = update.entry;
+      if (update.status === 'changed') {
+        findings.push({ id, name, status: 'outdated', message: `changed upstream (+${update.added} -${update.removed})` });
+      } else if (update.status === 'error') {
+        findings.push({ id, name, status: 'error', message: update.message });
+      }
+    }
+
+    // Installed skills must still match a dependency
+    const stale = await new SkillPruner(this.manifest, this.config).findStale(dependencies, files);
+    for (const { entry, reason } of stale) {
+      findings.push({ id: entry.id, name: entry.name, status: 'unmatched', message: reason });
+    }
+
+    // Everything else that was matched and installed is fine
+    for (const match of matched) {
+      const { skill } = match;
+      if (!this.manifest.get(skill.id) && isOptional(match)) {
+        continue;
+      }
+      if (!findings.some((finding) => finding.id === skill.id)) {
+        findings.push({ id: skill.id, name: skill.name, status: 'ok', message: 'installed and up to date' });
+      }
+    }
+
+    return findings.sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  private async isOnDisk(paths: string[]): Promise<boolean> {
+    try {
+      await Promise.all(paths.map((path) => access(join(this.manifest.directory, path))));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,123 @@
+import { ParserRegistry } from '../parsers/base.js';
+import { NpmParser } from '../parsers/npm.js';
+import { SkillManifest } from '../manifest.js';
+import { ProjectFiles } from '../project-files.js';
+import { SkillChecker, type CheckFinding, type CheckStatus } from '../checker.js';
+import { loadProjectConfig, resolveConfig } from '../config.js';
+import type { RegistryConfig } from '../types.js';
+
+export interface CheckOptions {
+  directory: string;
+  registry: RegistryConfig[];
+  defaultRegistry: boolean;
+  format?: 'text' | 'json' | 'junit';
+}
+
+/**
+ * Exit codes of the check command
+ */
+export const CHECK_EXIT_CODES = {
+  ok: 0,
+  failed: 1,
+  error: 2,
+} as const;
+
+const STATUS_SYMBOLS: Record<CheckStatus, string> = {
+  ok: '✓',
+  missing: '✗',
+  outdated: '↻',
+  unmatched: '−',
+  error: '!',
+};
+
+/**
+ * Run parsing, registry fetch and matching without the interactive UI,
+ * and report skills that are missing, outdated or no longer matching.
+ * Returns the process exit code.
+ */
+export async function runCheck(options: CheckOptions): Promise<number> {
+  const format = options.format ?? 'text';
+  if (!['text', 'json', 'junit'].includes(format)) {
+    console.error(`Unknown format "${format}". Use text, json or junit.`);
+    return CHECK_EXIT_CODES.error;
+  }
+
+  try {
+    const project = await loadProjectConfig(options.directory);
+    const config = resolveConfig(project?.config, {
+      registries: options.registry,
+      defaultRegistry: options.defaultRegistry,
+    });
+
+    const parserRegistry = new ParserRegistry();
+    parserRegistry.register(new NpmParser());
+    const parser = await parserRegistry.findParser(options.directory);
+    if (!parser) {
+      console.error('No supported package manager found in this directory.');
+      return CHECK_EXIT_CODES.error;
+    }
+    const parseResult = await parser.parse(options.directory);
+
+    const manifest = await SkillManifest.load(options.directory);
+    const files = await ProjectFiles.scan(options.directory, parseResult.workspaces);
+    const findings = await new SkillChecker(config, manifest).check(parseResult.dependencies, files);
+
+    console.log(formatFindings(findings, format));
+
+    return findings.some((finding) => finding.status !== 'ok')
+      ? CHECK_EXIT_CODES.failed
+      : CHECK_EXIT_CODES.ok;
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : 'An unexpected error occurred'}`);
+    return CHECK_EXIT_CODES.error;
+  }
+}
+
+function formatFindings(findings: CheckFinding[], format: 'text' | 'json' | 'junit'): string {
+  const failures = findings.filter((finding) => finding.status !== 'ok');
+
+  if (format === 'json') {
+    return JSON.stringify({ ok: failures.length === 0, findings }, null, 2);
+  }
+
+  if (format === 'junit') {
+    const cases = findings.map((finding) => {
+      const open = `    <testcase classname="help-me-ai" name="${escapeXml(finding.id)}"`;
+      if (finding.status === 'ok') {
+        return `${open}/>`;
+      }
+      return [
+        `${open}>`,
+        `      <failure type="${finding.status}" message="${escapeXml(finding.message)}">${escapeXml(finding.name)}: ${escapeXml(finding.message)}</failure>`,
+        '    </testcase>',
+      ].join('\n');
+    });
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<testsuites tests="${findings.length}" failures="${failures.length}">`,
+      `  <testsuite name="help-me-ai skills" tests="${findings.length}" failures="${failures.length}">`,
+      ...cases,
+      '  </testsuite>',
+      '</testsuites>',
+    ].join('\n');
+  }
+
+  const lines = findings.map(
+    (finding) => `${STATUS_SYMBOLS[finding.status]} ${finding.name} (${finding.id}): ${finding.message}`
+  );
+  lines.push(
+    '',
+    failures.length === 0
+      ? `All ${findings.length} skill(s) are installed and up to date.`
+      : `${failures.length} of ${findings.length} skill(s) need attention. Run help-me-ai, update or prune to fix them.`
+  );
+  return lines.join('\n');
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
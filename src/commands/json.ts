@@ -0,0 +1,239 @@
+import { homedir } from 'node:os';
+import { join, relative } from 'node:path';
+import { ParserRegistry } from '../parsers/base.js';
+import { NpmParser } from '../parsers/npm.js';
+import { SkillMatcher } from '../matcher.js';
+import { ProjectFiles } from '../project-files.js';
+import { PlaceholderResolver, applyDefaults } from '../placeholders.js';
+import { SkillDownloader } from '../downloader.js';
+import { RegistryLoader, getRegistries, getRegistryName } from '../registries.js';
+import { getDefaultSelection } from '../relationships.js';
+import {
+  SkillInstaller,
+  applyPlans,
+  getTargetAssignment,
+  planSelection,
+  resolveChanges,
+  type ConflictResolution,
+  type FileAction,
+  type InstallFailure,
+} from '../installer.js';
+import { SkillManifest } from '../manifest.js';
+import { createTargetRegistry } from '../targets/index.js';
+import type { Config, Dependency, MatchExplanation, MatchedSkill, SkillPriority, Target } from '../types.js';
+
+export interface JsonOptions {
+  directory: string;
+  /** List matching skills without installing */
+  list?: boolean;
+  /** Install every matching skill */
+  all?: boolean;
+  /** Install into a workspace package (name or path) instead of the repository root */
+  workspace?: string;
+  /** Install to the global targets: every skill, or the listed skill ids */
+  global?: boolean | string[];
+  /** Report what installing would do instead of doing it */
+  dryRun?: boolean;
+  /** What to do with files edited since they were installed (default: keep) */
+  onConflict?: ConflictResolution;
+}
+
+/**
+ * Exit codes of a run, shared with the interactive UI.
+ * The keys besides `ok`, `failed` and `error` are the steps a run can stop at.
+ */
+export const INSTALL_EXIT_CODES = {
+  ok: 0,
+  /** Some skills could not be installed */
+  failed: 1,
+  error: 2,
+  'no-packages': 3,
+  'no-skills': 4,
+  'no-targets': 5,
+} as const;
+
+/**
+ * The document printed by --json
+ */
+export interface JsonReport {
+  ok: boolean;
+  status: 'listed' | 'planned' | 'installed' | 'no-packages' | 'no-skills' | 'no-targets' | 'error';
+  error?: string;
+  dependencies: Dependency[];
+  skills: JsonSkill[];
+  /** Every target some skill is installed to */
+  targets: Target[];
+  /** What installing does to each file, per skill and target (only with --dry-run) */
+  plan?: JsonPlan[];
+  /** Files written, per installed skill */
+  installed: { id: string; files: string[] }[];
+  /** Files merged with conflict markers left to resolve */
+  conflicted: string[];
+  failures: InstallFailure[];
+}
+
+interface JsonPlan {
+  id: string;
+  target: string;
+  global: boolean;
+  /** Paths are relative to the project, or absolute for global targets */
+  files: { path: string; action: FileAction; modified: boolean; conflicts?: number }[];
+}
+
+interface JsonSkill {
+  id: string;
+  name: string;
+  author: string;
+  priority: SkillPriority;
+  score: number;
+  /** Part of the default selection (what --all installs) */
+  selected: boolean;
+  dependency: Pick<Dependency, 'name' | 'version' | 'workspace'>;
+  registry: { name: string; url: string };
+  explanation: MatchExplanation;
+  supersededBy?: string;
+  requiredBy?: string[];
+}
+
+/**
+ * List or install skills without the interactive UI and print a JSON report.
+ * Configuration errors are reported in the document too. Returns the process exit code.
+ */
+export async function runJson(options: JsonOptions, loadConfig: () => Promise<Config>): Promise<number> {
+  const report: JsonReport = {
+    ok: false,
+    status: 'error',
+    dependencies: [],
+    skills: [],
+    targets: [],
+    installed: [],
+    conflicted: [],
+    failures: [],
+  };
+
+  try {
+    if (!options.list && !options.all) {
+      throw new Error('--json never prompts: add --list to list skills or --all to install them');
+    }
+    const config = await loadConfig();
+    await collectReport(options, config, report);
+  } catch (error) {
+    report.status = 'error';
+    report.error = error instanceof Error ? error.message : String(error);
+  }
+
+  const completed = ['listed', 'planned', 'installed'].includes(report.status);
+  report.ok = completed && report.failures.length === 0;
+  console.log(JSON.stringify(report, null, 2));
+
+  if (report.status === 'listed' || report.status === 'planned' || report.status === 'installed') {
+    return report.failures.length > 0 ? INSTALL_EXIT_CODES.failed : INSTALL_EXIT_CODES.ok;
+  }
+  return INSTALL_EXIT_CODES[report.status];
+}
+
+/**
+ * Run the same steps as the interactive UI, filling the report as they go
+ */
+async function collectReport(options: JsonOptions, config: Config, report: JsonReport): Promise<void> {
+  const parserRegistry = new ParserRegistry();
+  parserRegistry.register(new NpmParser());
+  const parser = await parserRegistry.findParser(options.directory);
+  if (!parser) {
+    report.status = 'no-packages';
+    return;
+  }
+  const parseResult = await parser.parse(options.directory);
+  report.dependencies = parseResult.dependencies;
+
+  const index = await new RegistryLoader(config).fetchIndex();
+  const files = await ProjectFiles.scan(options.directory, parseResult.workspaces);
+  const matches = new SkillMatcher(config).matchSkills(parseResult.dependencies, index, files);
+  if (matches.length === 0) {
+    report.status = 'no-skills';
+    return;
+  }
+
+  const selection = getDefaultSelection(matches);
+  report.skills = matches.map((match) => toJsonSkill(match, selection.includes(match), config));
+  if (options.list) {
+    report.status = 'listed';
+    return;
+  }
+
+  let installDirectory = options.directory;
+  if (options.workspace) {
+    const workspace = parseResult.workspaces.find(
+      (w) => w.name === options.workspace || w.path === options.workspace
+    );
+    if (!workspace) {
+      throw new Error(`Workspace "${options.workspace}" not found.`);
+    }
+    installDirectory = join(options.directory, workspace.path);
+  }
+
+  const manifest = await SkillManifest.load(options.directory);
+  const installer = new SkillInstaller(
+    manifest, createTargetRegistry(config), config.cacheDirectory,
+    await SkillManifest.load(homedir())
+  );
+  const targets = await getTargetAssignment(selection, installDirectory, config, installer, options.global);
+  report.targets = [...new Map(Object.values(targets).flat().map((target) => [target.path, target])).values()];
+  if (report.targets.length === 0) {
+    report.status = 'no-targets';
+    return;
+  }
+
+  // Nobody to ask: placeholders that cannot be resolved take their default or are left in the skills
+  const skills = selection.map((match) => match.skill);
+  const detected = await new PlaceholderResolver(options.directory, files).resolveAll(skills, manifest);
+  const placeholders = applyDefaults(skills, detected);
+  const { plans, failures } = await planSelection(
+    selection, targets, placeholders, config, new SkillDownloader(config), installer
+  );
+  const resolved = resolveChanges(plans, () => options.onConflict ?? 'keep');
+  report.failures = failures;
+
+  if (options.dryRun) {
+    report.plan = resolved.map((plan) => ({
+      id: plan.skill.id,
+      target: plan.target.type,
+      global: Boolean(plan.target.global),
+      files: plan.changes.map((change) => ({
+        path: plan.target.global ? change.path : relative(options.directory, change.path),
+        action: change.action,
+        modified: change.modified,
+        conflicts: change.conflicts,
+      })),
+    }));
+    report.status = 'planned';
+    return;
+  }
+
+  const result = await applyPlans(resolved, installer);
+  report.installed = result.installed;
+  report.conflicted = result.conflicted;
+  report.failures.push(...result.failures);
+  report.status = 'installed';
+}
+
+function toJsonSkill(match: MatchedSkill, selected: boolean, config: Config): JsonSkill {
+  const url = match.skill.registry ?? config.registryUrl;
+  return {
+    id: match.skill.id,
+    name: match.skill.name,
+    author: match.skill.author,
+    priority: match.skill.priority ?? 'normal',
+    score: match.score,
+    selected,
+    dependency: {
+      name: match.dependency.name,
+      version: match.dependency.version,
+      workspace: match.dependency.workspace,
+    },
+    registry: { name: getRegistryName(url, getRegistries(config)), url },
+    explanation: match.explanation,
+    supersededBy: match.supersededBy,
+    requiredBy: match.requiredBy,
+  };
+}
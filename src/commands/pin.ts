@@ -0,0 +1,63 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { SkillDownloader } from '../downloader.js';
+import { DEFAULT_CONFIG, type SkillsIndex } from '../types.js';
+
+export interface PinOptions {
+  /** Path of the index.json to pin */
+  index: string;
+  /** Base URL that relative skill paths resolve against (default: the index's directory) */
+  registryUrl?: string;
+  /** Only pin skills that have no integrity yet */
+  missing?: boolean;
+}
+
+/**
+ * Download every remote source of an index.json and write its sha256 integrity into the file.
+ * Returns the process exit code.
+ */
+export async function runPin(options: PinOptions): Promise<number> {
+  const indexPath = resolve(options.index);
+
+  let index: SkillsIndex;
+  try {
+    index = JSON.parse(await readFile(indexPath, 'utf-8')) as SkillsIndex;
+  } catch (error) {
+    console.error(`Could not read ${options.index}: ${error instanceof Error ? error.message : error}`);
+    return 1;
+  }
+
+  const downloader = new SkillDownloader({
+    ...DEFAULT_CONFIG,
+    registryUrl: options.registryUrl ?? pathToFileURL(dirname(indexPath)).href,
+    cacheMode: 'refresh',
+  });
+
+  let failures = 0;
+  const skills = [];
+  for (const skill of index.skills) {
+    if (options.missing && skill.integrity) {
+      skills.push(skill);
+      continue;
+    }
+
+    try {
+      const pinned = await downloader.pinSkill(skill);
+      skills.push(pinned);
+      const status = pinned.integrity === undefined
+        ? 'directory source, not pinned'
+        : pinned.integrity === skill.integrity ? 'unchanged' : pinned.integrity;
+      console.log(`✓ ${skill.id}: ${status}`);
+    } catch (error) {
+      failures++;
+      skills.push(skill);
+      console.error(`✗ ${skill.id}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  await writeFile(indexPath, `${JSON.stringify({ ...index, skills }, null, 2)}\n`);
+  console.log(`\nPinned ${index.skills.length - failures} of ${index.skills.length} skill(s) in ${options.index}`);
+
+  return failures > 0 ? 1 : 0;
+}
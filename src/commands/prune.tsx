@@ -0,0 +1,191 @@
+import React, { useState, useEffect } from 'react';
+import { Box, Text, useInput } from 'ink';
+import Spinner from 'ink-spinner';
+import { ParserRegistry } from '../parsers/base.js';
+import { NpmParser } from '../parsers/npm.js';
+import { SkillManifest, MANIFEST_FILE } from '../manifest.js';
+import { SkillPruner, type StaleSkill } from '../pruner.js';
+import { ProjectFiles } from '../project-files.js';
+import { loadProjectConfig, resolveConfig } from '../config.js';
+
+export interface PruneOptions {
+  directory: string;
+  yes?: boolean;
+}
+
+type PruneState =
+  | { step: 'checking' }
+  | { step: 'no-manifest' }
+  | { step: 'no-packages' }
+  | { step: 'up-to-date' }
+  | { step: 'confirming'; stale: StaleSkill[] }
+  | { step: 'pruning'; stale: StaleSkill[] }
+  | { step: 'done'; removed: StaleSkill[]; failed: { stale: StaleSkill; message: string }[] }
+  | { step: 'error'; message: string };
+
+interface PruneAppProps {
+  options: PruneOptions;
+}
+
+export const PruneApp: React.FC<PruneAppProps> = ({ options }) => {
+  const [state, setState] = useState<PruneState>({ step: 'checking' });
+  const [pruner, setPruner] = useState<SkillPruner | null>(null);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const manifest = await SkillManifest.load(options.directory);
+        if (manifest.entries().length === 0) {
+          setState({ step: 'no-manifest' });
+          return;
+        }
+
+        const parserRegistry = new ParserRegistry();
+        parserRegistry.register(new NpmParser());
+        const parser = await parserRegistry.findParser(options.directory);
+        if (!parser) {
+          setState({ step: 'no-packages' });
+          return;
+        }
+        const parseResult = await parser.parse(options.directory);
+
+        const project = await loadProjectConfig(options.directory);
+        const skillPruner = new SkillPruner(manifest, resolveConfig(project?.config));
+        setPruner(skillPruner);
+        const files = await ProjectFiles.scan(options.directory, parseResult.workspaces);
+        const stale = await skillPruner.findStale(parseResult.dependencies, files);
+
+        if (stale.length === 0) {
+          setState({ step: 'up-to-date' });
+        } else if (options.yes) {
+          setState({ step: 'pruning', stale });
+        } else {
+          setState({ step: 'confirming', stale });
+        }
+      } catch (error) {
+        setState({
+          step: 'error',
+          message: error instanceof Error ? error.message : 'An unexpected error occurred',
+        });
+      }
+    })();
+  }, []);
+
+  useEffect(() => {
+    if (state.step !== 'pruning' || !pruner) return;
+    (async () => {
+      const removed: StaleSkill[] = [];
+      const failed: { stale: StaleSkill; message: string }[] = [];
+      for (const stale of state.stale) {
+        try {
+          await pruner.prune(stale.entry);
+          removed.push(stale);
+        } catch (error) {
+          failed.push({ stale, message: error instanceof Error ? error.message : String(error) });
+        }
+      }
+      setState({ step: 'done', removed, failed });
+    })();
+  }, [state.step]);
+
+  useInput(
+    (input) => {
+      if (state.step !== 'confirming') return;
+      const answer = input.toLowerCase();
+      if (answer === 'y') {
+        setState({ step: 'pruning', stale: state.stale });
+      } else if (answer === 'n') {
+        setState({ step: 'done', removed: [], failed: [] });
+      }
+    },
+    { isActive: state.step === 'confirming' }
+  );
+
+  if (state.step === 'checking') {
+    return (
+      <Box>
+        <Text color="blue">
+          <Spinner type="dots" />
+        </Text>
+        <Text> Matching installed skills against your dependencies...</Text>
+      </Box>
+    );
+  }
+
+  if (state.step === 'no-manifest') {
+    return (
+      <Box flexDirection="column">
+        <Text color="yellow">No skills installed by help-me-ai in this directory.</Text>
+        <Text color="gray">Installed skills are recorded in {MANIFEST_FILE}.</Text>
+      </Box>
+    );
+  }
+
+  if (state.step === 'no-packages') {
+    return (
+      <Box flexDirection="column">
+        <Text color="yellow">No supported package manager found in this directory.</Text>
+        <Text color="gray">Supported: package.json (npm/yarn/pnpm/bun)</Text>
+      </Box>
+    );
+  }
+
+  if (state.step === 'up-to-date') {
+    return <Text color="green">✓ Every installed skill still matches your dependencies.</Text>;
+  }
+
+  if (state.step === 'confirming' || state.step === 'pruning') {
+    return (
+      <Box flexDirection="column">
+        <Box marginBottom={1}>
+          <Text color="yellow">{state.stale.length} installed skill(s) no longer match:</Text>
+        </Box>
+        {state.stale.map(({ entry, reason }) => (
+          <Box key={entry.id} flexDirection="column">
+            <Text bold color="cyan">  {entry.name}</Text>
+            <Text color="gray">    {reason}</Text>
+            {entry.targets.map((target) => (
+              <Text key={target.path} color="gray">    {target.path}</Text>
+            ))}
+          </Box>
+        ))}
+        <Box marginTop={1}>
+          {state.step === 'confirming' ? (
+            <Text>Remove them? (y/n)</Text>
+          ) : (
+            <>
+              <Text color="blue">
+                <Spinner type="dots" />
+              </Text>
+              <Text> Removing...</Text>
+            </>
+          )}
+        </Box>
+      </Box>
+    );
+  }
+
+  if (state.step === 'done') {
+    return (
+      <Box flexDirection="column">
+        <Text color="green">✨ Done! {state.removed.length} skill(s) removed.</Text>
+        {state.removed.map(({ entry }) => (
+          <Text key={entry.id} color="gray">  ✓ {entry.name}</Text>
+        ))}
+        {state.failed.map(({ stale, message }) => (
+          <Text key={stale.entry.id} color="red">  ✗ {stale.entry.name}: {message}</Text>
+        ))}
+      </Box>
+    );
+  }
+
+  if (state.step === 'error') {
+    return (
+      <Box flexDirection="column">
+        <Text color="red">Error: {state.message}</Text>
+      </Box>
+    );
+  }
+
+  return null;
+};
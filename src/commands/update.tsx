@@ -0,0 +1,229 @@
+import React, { useState, useEffect } from 'react';
+import { relative } from 'node:path';
+import { Box, Text, useInput } from 'ink';
+import Spinner from 'ink-spinner';
+import { SkillManifest, MANIFEST_FILE } from '../manifest.js';
+import { SkillUpdater, type SkillUpdate, type UpdateResult } from '../updater.js';
+import { loadProjectConfig, resolveConfig } from '../config.js';
+
+export interface UpdateOptions {
+  directory: string;
+  yes?: boolean;
+}
+
+type ChangedUpdate = Extract<SkillUpdate, { status: 'changed' }>;
+
+/**
+ * An accepted update and what applying it did
+ */
+interface AppliedUpdate {
+  update: ChangedUpdate;
+  result: UpdateResult;
+}
+
+type UpdateState =
+  | { step: 'checking' }
+  | { step: 'no-manifest' }
+  | { step: 'reviewing'; updates: SkillUpdate[]; changes: ChangedUpdate[]; index: number; accepted: ChangedUpdate[] }
+  | { step: 'applying'; updates: SkillUpdate[]; accepted: ChangedUpdate[] }
+  | { step: 'done'; updates: SkillUpdate[]; applied: AppliedUpdate[] }
+  | { step: 'error'; message: string };
+
+interface UpdateAppProps {
+  options: UpdateOptions;
+}
+
+export const UpdateApp: React.FC<UpdateAppProps> = ({ options }) => {
+  const [state, setState] = useState<UpdateState>({ step: 'checking' });
+  const [updater, setUpdater] = useState<SkillUpdater | null>(null);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const manifest = await SkillManifest.load(options.directory);
+        if (manifest.entries().length === 0) {
+          setState({ step: 'no-manifest' });
+          return;
+        }
+
+        const project = await loadProjectConfig(options.directory);
+        const skillUpdater = new SkillUpdater(manifest, resolveConfig(project?.config));
+        setUpdater(skillUpdater);
+        const updates = await skillUpdater.checkForUpdates();
+        const changes = updates.filter((u): u is ChangedUpdate => u.status === 'changed');
+
+        if (options.yes || changes.length === 0) {
+          setState({ step: 'applying', updates, accepted: changes });
+        } else {
+          setState({ step: 'reviewing', updates, changes, index: 0, accepted: [] });
+        }
+      } catch (error) {
+        setState({
+          step: 'error',
+          message: error instanceof Error ? error.message : 'An unexpected error occurred',
+        });
+      }
+    })();
+  }, []);
+
+  useEffect(() => {
+    if (state.step !== 'applying' || !updater) return;
+    (async () => {
+      const applied: AppliedUpdate[] = [];
+      const updates = [...state.updates];
+      for (const update of state.accepted) {
+        try {
+          applied.push({ update, result: await updater.applyUpdate(update) });
+        } catch (error) {
+          updates[updates.indexOf(update)] = {
+            status: 'error',
+            entry: update.entry,
+            message: error instanceof Error ? error.message : String(error),
+          };
+        }
+      }
+      setState({ step: 'done', updates, applied });
+    })();
+  }, [state.step]);
+
+  useInput(
+    (input) => {
+      if (state.step !== 'reviewing') return;
+      const answer = input.toLowerCase();
+      if (answer !== 'y' && answer !== 'n') return;
+
+      const current = state.changes[state.index];
+      const accepted = answer === 'y' ? [...state.accepted, current] : state.accepted;
+      if (state.index + 1 < state.changes.length) {
+        setState({ ...state, index: state.index + 1, accepted });
+      } else {
+        setState({ step: 'applying', updates: state.updates, accepted });
+      }
+    },
+    { isActive: state.step === 'reviewing' }
+  );
+
+  if (state.step === 'checking') {
+    return (
+      <Box>
+        <Text color="blue">
+          <Spinner type="dots" />
+        </Text>
+        <Text> Checking installed skills for upstream changes...</Text>
+      </Box>
+    );
+  }
+
+  if (state.step === 'no-manifest') {
+    return (
+      <Box flexDirection="column">
+        <Text color="yellow">No skills installed by help-me-ai in this directory.</Text>
+        <Text color="gray">Installed skills are recorded in {MANIFEST_FILE}.</Text>
+      </Box>
+    );
+  }
+
+  if (state.step === 'reviewing') {
+    const current = state.changes[state.index];
+    return (
+      <Box flexDirection="column">
+        <Box marginBottom={1}>
+          <Text color="green">
+            ✓ {state.changes.length} skill(s) changed upstream ({state.index + 1}/{state.changes.length})
+          </Text>
+        </Box>
+        <Box>
+          <Text bold color="cyan">{current.entry.name}</Text>
+          <Text> </Text>
+          <Text color="green">+{current.added}</Text>
+          <Text> </Text>
+          <Text color="red">-{current.removed}</Text>
+        </Box>
+        {current.entry.targets.map((target) => (
+          <Text key={target.path} color="gray">  {target.path}</Text>
+        ))}
+        <Box marginTop={1}>
+          <Text>Apply this update? (y/n)</Text>
+        </Box>
+      </Box>
+    );
+  }
+
+  if (state.step === 'applying') {
+    return (
+      <Box>
+        <Text color="blue">
+          <Spinner type="dots" />
+        </Text>
+        <Text> Applying {state.accepted.length} update(s)...</Text>
+      </Box>
+    );
+  }
+
+  if (state.step === 'done') {
+    const unchanged = state.updates.filter((u) => u.status === 'unchanged');
+    const rejected = state.updates.filter(
+      (u) => u.status === 'changed' && !state.applied.some((applied) => applied.update === u)
+    );
+    // A skill is only updated when something was written: local edits can keep every file as it was
+    const updated = state.applied.filter((applied) => applied.result.written.length > 0);
+    const display = (path: string) => relative(options.directory, path);
+
+    return (
+      <Box flexDirection="column">
+        <Text color="green">
+          ✨ Done! {updated.length} skill(s) updated, {unchanged.length} already up to date.
+        </Text>
+        {state.applied.map(({ update, result }) => (
+          <Box key={update.entry.id} flexDirection="column">
+            {result.written.length > 0 ? (
+              <Text color="gray">
+                {'  '}✓ {update.entry.name} (+{update.added} -{update.removed})
+              </Text>
+            ) : (
+              <Text color="yellow">
+                {'  '}○ {update.entry.name}: nothing written
+              </Text>
+            )}
+            {result.kept.map((path) => (
+              <Text key={path} color="yellow">
+                {'      '}kept your edits to {display(path)}: no merge base, apply the upstream change by hand
+              </Text>
+            ))}
+            {result.conflicted.map((path) => (
+              <Text key={path} color="yellow">
+                {'      '}conflicts in {display(path)}: resolve the {'<<<<<<<'} markers
+              </Text>
+            ))}
+          </Box>
+        ))}
+        {rejected.map((update) => (
+          <Text key={update.entry.id} color="gray">
+            {'  '}○ {update.entry.name} (kept current version)
+          </Text>
+        ))}
+        {state.updates.map((update) =>
+          update.status === 'skipped' ? (
+            <Text key={update.entry.id} color="yellow">
+              {'  '}- {update.entry.name}: skipped, {update.reason}
+            </Text>
+          ) : update.status === 'error' ? (
+            <Text key={update.entry.id} color="red">
+              {'  '}✗ {update.entry.name}: {update.message}
+            </Text>
+          ) : null
+        )}
+      </Box>
+    );
+  }
+
+  if (state.step === 'error') {
+    return (
+      <Box flexDirection="column">
+        <Text color="red">Error: {state.message}</Text>
+      </Box>
+    );
+  }
+
+  return null;
+};
@@ -0,0 +1,62 @@
+import { normalizeRegistryUrl } from '../registries.js';
+import { RegistryValidator, type ValidationFinding } from '../validator.js';
+import { DEFAULT_CONFIG } from '../types.js';
+
+export interface ValidateRegistryOptions {
+  /** Registry directory or URL, or the path or URL of its index.json */
+  location: string;
+  format?: 'text' | 'json';
+  /** Fail on warnings too */
+  strict?: boolean;
+}
+
+/**
+ * Exit codes of the validate-registry command
+ */
+export const VALIDATE_EXIT_CODES = {
+  ok: 0,
+  invalid: 1,
+  error: 2,
+} as const;
+
+/**
+ * Validate a registry and print a report of errors and warnings.
+ * Returns the process exit code.
+ */
+export async function runValidateRegistry(options: ValidateRegistryOptions): Promise<number> {
+  const format = options.format ?? 'text';
+  if (!['text', 'json'].includes(format)) {
+    console.error(`Unknown format "${format}". Use text or json.`);
+    return VALIDATE_EXIT_CODES.error;
+  }
+
+  const registryUrl = normalizeRegistryUrl(options.location.replace(/\/?index\.json$/, '') || '.');
+
+  let findings: ValidationFinding[];
+  try {
+    findings = await new RegistryValidator({ ...DEFAULT_CONFIG, registryUrl, cacheMode: 'refresh' }).validate();
+  } catch (error) {
+    console.error(`Could not read the registry index: ${error instanceof Error ? error.message : error}`);
+    return VALIDATE_EXIT_CODES.error;
+  }
+
+  const errors = findings.filter((finding) => finding.level === 'error');
+  const warnings = findings.filter((finding) => finding.level === 'warning');
+
+  if (format === 'json') {
+    console.log(JSON.stringify({ valid: errors.length === 0, errors, warnings }, null, 2));
+  } else {
+    for (const finding of findings) {
+      const symbol = finding.level === 'error' ? '✗' : '⚠';
+      console.log(`${symbol} ${finding.skillId ? `${finding.skillId}: ` : ''}${finding.message}`);
+    }
+    if (findings.length > 0) {
+      console.log('');
+    }
+    console.log(`${errors.length} error(s), ${warnings.length} warning(s) in ${registryUrl}/index.json`);
+  }
+
+  return errors.length > 0 || (options.strict && warnings.length > 0)
+    ? VALIDATE_EXIT_CODES.invalid
+    : VALIDATE_EXIT_CODES.ok;
+}
@@ -3,68 +3,209 @@ import { Box, Text, useInput } from 'ink';
 
 interface Item<T> {
   label: string;
+  /** Items may share a value, e.g. to list it under several groups; they are selected together */
   value: T;
+  /** Items sharing a group are listed under a common heading; keep them contiguous */
+  group?: string;
+  /** Shown dimmed after the label, e.g. why the item is not preselected */
+  note?: string;
+  /** More text the filter matches besides the label, e.g. a description */
+  keywords?: string;
 }
 
 interface MultiSelectCheckboxProps<T> {
   items: Item<T>[];
   defaultSelected?: T[];
   onSubmit: (selected: T[]) => void;
+  /** Add the items that must come with the selection (called after each toggle) */
+  expandSelection?: (selected: T[]) => T[];
+  /** Warnings about the current selection, shown below the list */
+  getWarnings?: (selected: T[]) => string[];
+  /** Number of items shown at once; longer lists scroll */
+  limit?: number;
+  /** Details about the item under the cursor, shown below the list */
+  renderDetails?: (value: T) => React.ReactNode;
 }
 
-export function MultiSelectCheckbox<T>({ items, defaultSelected = [], onSubmit }: MultiSelectCheckboxProps<T>) {
+/**
+ * Checkbox list. `/` starts filtering (Enter keeps the filter, Esc clears it),
+ * `a` and `n` select all or none of the items shown.
+ */
+export function MultiSelectCheckbox<T>({
+  items,
+  defaultSelected = [],
+  onSubmit,
+  expandSelection = (selected) => selected,
+  getWarnings = () => [],
+  limit = 10,
+  renderDetails,
+}: MultiSelectCheckboxProps<T>) {
   const [cursor, setCursor] = useState(0);
+  // First row of the viewport, in the filtered list
+  const [offset, setOffset] = useState(0);
+  const [query, setQuery] = useState('');
+  const [filtering, setFiltering] = useState(false);
   const [selected, setSelected] = useState<Set<number>>(
     new Set(
       items
-        .map((item, index) => 
+        .map((item, index) =>
           defaultSelected.includes(item.value) ? index : -1
         )
         .filter((i) => i !== -1)
     )
   );
 
+  // Indexes of the items matching the filter
+  const visible = items
+    .map((item, index) => (matchesQuery(item, query) ? index : -1))
+    .filter((i) => i !== -1);
+
+  const moveTo = (position: number) => {
+    const next = Math.max(0, Math.min(visible.length - 1, position));
+    setCursor(next);
+    if (next < offset) {
+      setOffset(next);
+    } else if (next >= offset + limit) {
+      setOffset(next - limit + 1);
+    }
+  };
+
+  const changeQuery = (next: string) => {
+    setQuery(next);
+    setCursor(0);
+    setOffset(0);
+  };
+
+  // Apply a change to the selection, then add what must come with it
+  const updateSelection = (change: (selection: Set<number>) => void) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      change(next);
+      const expanded = expandSelection(valuesOf(next));
+      return new Set(items.map((item, index) => (expanded.includes(item.value) ? index : -1)).filter((i) => i !== -1));
+    });
+  };
+
+  // Selected values, once each even when several items share them
+  const valuesOf = (indexes: Set<number>) =>
+    [...new Set(items.filter((_, index) => indexes.has(index)).map((item) => item.value))];
+
+  const withValue = (index: number) =>
+    items.map((item, i) => (item.value === items[index].value ? i : -1)).filter((i) => i !== -1);
+
   useInput((input, key) => {
+    if (filtering) {
+      if (key.return) {
+        setFiltering(false);
+      } else if (key.escape) {
+        setFiltering(false);
+        changeQuery('');
+      } else if (key.backspace || key.delete) {
+        changeQuery(query.slice(0, -1));
+      } else if (input && !key.ctrl && !key.meta && !key.upArrow && !key.downArrow && !key.tab) {
+        changeQuery(query + input);
+      }
+      return;
+    }
+
+    const current = visible[cursor];
     if (key.upArrow) {
-      setCursor(Math.max(0, cursor - 1));
+      moveTo(cursor - 1);
     } else if (key.downArrow) {
-      setCursor(Math.min(items.length - 1, cursor + 1));
-    } else if (input === ' ') {
-      setSelected((prev) => {
-        const next = new Set(prev);
-        if (next.has(cursor)) {
-          next.delete(cursor);
-        } else {
-          next.add(cursor);
-        }
-        return next;
-      });
+      moveTo(cursor + 1);
+    } else if (key.pageUp) {
+      moveTo(cursor - limit);
+    } else if (key.pageDown) {
+      moveTo(cursor + limit);
+    } else if (input === '/') {
+      setFiltering(true);
+    } else if (key.escape && query) {
+      changeQuery('');
+    } else if (input === ' ' && current !== undefined) {
+      const remove = selected.has(current);
+      updateSelection((next) => withValue(current).forEach((index) => (remove ? next.delete(index) : next.add(index))));
+    } else if (input === 'a') {
+      updateSelection((next) => visible.forEach((index) => next.add(index)));
+    } else if (input === 'n') {
+      updateSelection((next) => visible.flatMap(withValue).forEach((index) => next.delete(index)));
     } else if (key.return) {
-      const selectedItems = items.filter((_, index) => selected.has(index)).map((item) => item.value);
-      onSubmit(selectedItems);
+      onSubmit(valuesOf(selected));
     }
   });
 
+  const selectedValues = valuesOf(selected);
+  const total = new Set(items.map((item) => item.value)).size;
+  const warnings = getWarnings(selectedValues);
+  const shown = visible.slice(offset, offset + limit);
+  const current = visible[cursor];
+
   return (
     <Box flexDirection="column">
-      {items.map((item, index) => {
+      {(filtering || query) && (
+        <Box marginBottom={1}>
+          <Text>
+            <Text color="cyan">/</Text>
+            {query}
+            {filtering && <Text color="gray">█</Text>}
+            <Text color="gray"> ({visible.length} of {items.length})</Text>
+          </Text>
+        </Box>
+      )}
+      {visible.length === 0 && <Text color="gray">Nothing matches "{query}"</Text>}
+      {offset > 0 && <Text color="gray">  ↑ {offset} more</Text>}
+      {shown.map((index, row) => {
+        const item = items[index];
         const isSelected = selected.has(index);
-        const isCursor = cursor === index;
+        const isCursor = current === index;
+        // Repeat the heading at the top of the viewport so scrolled items keep their group
+        const startsGroup = item.group !== undefined && (row === 0 || item.group !== items[shown[row - 1]].group);
 
         return (
-          <Box key={index}>
-            <Text color={isCursor ? 'cyan' : undefined}>
-              {isCursor ? '❯ ' : '  '}
-            </Text>
-            <Text color={isSelected ? 'green' : 'gray'}>
-              {isSelected ? '● ' : '○ '}
-            </Text>
-            <Text color={isCursor ? 'cyan' : undefined}>
-              {item.label}
-            </Text>
+          <Box key={index} flexDirection="column">
+            {startsGroup && (
+              <Box marginTop={row > 0 ? 1 : 0}>
+                <Text bold color="magenta">{item.group}</Text>
+              </Box>
+            )}
+            <Box>
+              <Text color={isCursor ? 'cyan' : undefined}>
+                {isCursor ? '❯ ' : '  '}
+              </Text>
+              <Text color={isSelected ? 'green' : 'gray'}>
+                {isSelected ? '● ' : '○ '}
+              </Text>
+              <Text color={isCursor ? 'cyan' : undefined}>
+                {item.label}
+              </Text>
+              {item.note && <Text color="gray"> ({item.note})</Text>}
+            </Box>
           </Box>
         );
       })}
+      {visible.length > offset + limit && (
+        <Text color="gray">  ↓ {visible.length - offset - limit} more</Text>
+      )}
+      <Text color="gray">{selectedValues.length} of {total} selected</Text>
+      {warnings.length > 0 && (
+        <Box flexDirection="column" marginTop={1}>
+          {warnings.map((warning) => (
+            <Text key={warning} color="yellow">⚠ {warning}</Text>
+          ))}
+        </Box>
+      )}
+      {renderDetails && current !== undefined && (
+        <Box flexDirection="column" marginTop={1} borderStyle="round" borderColor="gray" paddingX={1}>
+          {renderDetails(items[current].value)}
+        </Box>
+      )}
     </Box>
   );
 }
+
+/**
+ * Case-insensitive match of every word of the query against the label and keywords
+ */
+function matchesQuery<T>(item: Item<T>, query: string): boolean {
+  const text = `${item.label} ${item.group ?? ''} ${item.keywords ?? ''}`.toLowerCase();
+  return query.toLowerCase().split(/\s+/).every((word) => text.includes(word));
+}
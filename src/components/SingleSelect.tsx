@@ -0,0 +1,43 @@
+import React, { useState } from 'react';
+import { Box, Text, useInput } from 'ink';
+
+interface Item<T> {
+  label: string;
+  value: T;
+}
+
+interface SingleSelectProps<T> {
+  items: Item<T>[];
+  onSubmit: (selected: T) => void;
+}
+
+export function SingleSelect<T>({ items, onSubmit }: SingleSelectProps<T>) {
+  const [cursor, setCursor] = useState(0);
+
+  useInput((_input, key) => {
+    if (key.upArrow) {
+      setCursor(Math.max(0, cursor - 1));
+    } else if (key.downArrow) {
+      setCursor(Math.min(items.length - 1, cursor + 1));
+    } else if (key.return) {
+      onSubmit(items[cursor].value);
+    }
+  });
+
+  return (
+    <Box flexDirection="column">
+      {items.map((item, index) => {
+        const isCursor = cursor === index;
+
+        return (
+          <Box key={index}>
+            <Text color={isCursor ? 'cyan' : undefined}>
+              {isCursor ? '❯ ' : '  '}
+              {item.label}
+            </Text>
+          </Box>
+        );
+      })}
+    </Box>
+  );
+}
@@ -0,0 +1,32 @@
+import React, { useState } from 'react';
+import { Text, useInput } from 'ink';
+
+interface TextInputProps {
+  /** Shown dimmed while nothing is typed */
+  placeholder?: string;
+  /** Initial value, which can be edited or accepted as is */
+  defaultValue?: string;
+  onSubmit: (value: string) => void;
+}
+
+export function TextInput({ placeholder, defaultValue = '', onSubmit }: TextInputProps) {
+  const [value, setValue] = useState(defaultValue);
+
+  useInput((input, key) => {
+    if (key.return) {
+      onSubmit(value.trim());
+    } else if (key.backspace || key.delete) {
+      setValue((previous) => previous.slice(0, -1));
+    } else if (input && !key.ctrl && !key.meta && !key.upArrow && !key.downArrow && !key.tab) {
+      setValue((previous) => previous + input);
+    }
+  });
+
+  return (
+    <Text>
+      <Text color="cyan">❯ </Text>
+      {value === '' && placeholder ? <Text color="gray">{placeholder}</Text> : value}
+      <Text color="gray">█</Text>
+    </Text>
+  );
+}
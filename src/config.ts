@@ -0,0 +1,317 @@
+import { readFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import { getEnvReferences, isRegistryEnv, REGISTRY_ENV_PREFIX } from './auth.js';
+import type { MatchOptions } from './matcher.js';
+import { DEFAULT_PRESELECT_THRESHOLD } from './ranking.js';
+import { normalizeSkillPath } from './paths.js';
+import { normalizeRegistryUrl, resolveRegistries } from './registries.js';
+import { DEFAULT_CONFIG, type Config, type ProjectConfig, type RegistryConfig, type TargetType } from './types.js';
+
+/**
+ * Project configuration files, in lookup order
+ */
+export const CONFIG_FILES = ['.helpmeairc', 'help-me-ai.config.json'];
+
+const CONFIG_KEYS = [
+  'registries',
+  'defaultRegistry',
+  'targets',
+  'include',
+  'exclude',
+  'ignoreDependencies',
+  'skillTargets',
+  'customTargets',
+  'cursorMode',
+  'allowUnpinned',
+  'preselectThreshold',
+];
+
+/**
+ * A loaded project configuration, with its registries resolved
+ */
+export type ResolvedProjectConfig = Omit<ProjectConfig, 'registries'> & { registries?: RegistryConfig[] };
+
+/**
+ * Settings given on the command line, which take precedence over the project configuration
+ */
+export interface ConfigOverrides {
+  /** Registries placed before the configured ones */
+  registries?: RegistryConfig[];
+  /** `false` turns the public registry off */
+  defaultRegistry?: boolean;
+  cursorMode?: Config['cursorMode'];
+  cacheMode?: Config['cacheMode'];
+  allowUnpinned?: boolean;
+  /** Agents to install to, instead of the configured ones */
+  targets?: TargetType[];
+  /** Agents to install specific skills to, on top of the configured ones */
+  skillTargets?: Record<string, TargetType[]>;
+}
+
+/**
+ * Load the project configuration file of a directory, if there is one.
+ * Local registry directories are resolved relative to the project.
+ * Throws when the file is not valid JSON or does not match the expected shape.
+ */
+export async function loadProjectConfig(
+  directory: string
+): Promise<{ path: string; config: ResolvedProjectConfig } | null> {
+  for (const fileName of CONFIG_FILES) {
+    const path = join(directory, fileName);
+
+    let content: string;
+    try {
+      content = await readFile(path, 'utf-8');
+    } catch {
+      continue;
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch (error) {
+      throw new Error(`Invalid ${fileName}: ${error instanceof Error ? error.message : 'not valid JSON'}`);
+    }
+
+    const problems = validateProjectConfig(data);
+    if (problems.length > 0) {
+      throw new Error(`Invalid ${fileName}:\n${problems.map((problem) => `  - ${problem}`).join('\n')}`);
+    }
+
+    const config = data as ProjectConfig;
+    return {
+      path,
+      config: {
+        ...config,
+        registries: config.registries?.map((registry) => resolveRegistry(directory, registry)),
+      },
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Combine the defaults, the project configuration and command-line settings.
+ * Throws when no registry is left to use.
+ */
+export function resolveConfig(project: ResolvedProjectConfig = {}, overrides: ConfigOverrides = {}): Config {
+  const registries = resolveRegistries(
+    [...(overrides.registries ?? []), ...(project.registries ?? [])],
+    overrides.defaultRegistry !== false && project.defaultRegistry !== false
+  );
+  if (registries.length === 0) {
+    throw new Error('No skills registry to use: add one with --registry or in the project configuration.');
+  }
+
+  return {
+    ...DEFAULT_CONFIG,
+    ...getMatchOptions(project),
+    registryUrl: normalizeRegistryUrl(registries[0].url),
+    registries,
+    targets: overrides.targets ?? project.targets,
+    skillTargets: overrides.skillTargets || project.skillTargets
+      ? { ...project.skillTargets, ...overrides.skillTargets }
+      : undefined,
+    customTargets: project.customTargets,
+    cursorMode: overrides.cursorMode ?? project.cursorMode ?? 'skills',
+    cacheMode: overrides.cacheMode ?? 'default',
+    allowUnpinned: overrides.allowUnpinned ?? project.allowUnpinned ?? true,
+    preselectThreshold: project.preselectThreshold ?? DEFAULT_PRESELECT_THRESHOLD,
+  };
+}
+
+/**
+ * Read repeated --target options: `claude` installs every skill to an agent,
+ * `testing=cursor` installs one skill to an agent
+ */
+export function parseTargetOptions(values: string[]): Pick<ConfigOverrides, 'targets' | 'skillTargets'> {
+  const targets: TargetType[] = [];
+  const skillTargets: Record<string, TargetType[]> = {};
+
+  for (const value of values) {
+    const [id, type] = value.includes('=') ? value.split('=', 2) : [undefined, value];
+    if (!type || id === '') {
+      throw new Error(`Invalid --target "${value}": use <target> or <skill>=<target>`);
+    }
+    if (id) {
+      skillTargets[id] = [...(skillTargets[id] ?? []), type];
+    } else {
+      targets.push(type);
+    }
+  }
+
+  return {
+    targets: targets.length > 0 ? targets : undefined,
+    skillTargets: Object.keys(skillTargets).length > 0 ? skillTargets : undefined,
+  };
+}
+
+/**
+ * The matching settings of a project configuration
+ */
+function getMatchOptions(config: ProjectConfig = {}): MatchOptions {
+  return {
+    include: config.include ?? [],
+    exclude: config.exclude ?? [],
+    ignoreDependencies: config.ignoreDependencies ?? [],
+  };
+}
+
+/**
+ * List everything wrong with a parsed configuration file (empty when valid)
+ */
+export function validateProjectConfig(data: unknown): string[] {
+  if (!isObject(data)) {
+    return ['the configuration must be a JSON object'];
+  }
+
+  const problems: string[] = [];
+
+  for (const key of Object.keys(data)) {
+    if (!CONFIG_KEYS.includes(key)) {
+      problems.push(`unknown option "${key}"`);
+    }
+  }
+
+  if (data.registries !== undefined) {
+    if (!Array.isArray(data.registries)) {
+      problems.push('"registries" must be an array');
+    } else {
+      data.registries.forEach((registry, index) => {
+        const valid = typeof registry === 'string' ||
+          (isObject(registry) && typeof registry.url === 'string' &&
+            (registry.name === undefined || typeof registry.name === 'string'));
+        if (!valid) {
+          problems.push(`"registries[${index}]" must be a URL, a directory or { "name", "url" }`);
+          return;
+        }
+        if (typeof registry === 'string') {
+          return;
+        }
+        if (registry.tokenEnv !== undefined && typeof registry.tokenEnv !== 'string') {
+          problems.push(`"registries[${index}].tokenEnv" must be the name of an environment variable`);
+        } else if (typeof registry.tokenEnv === 'string' && !isRegistryEnv(registry.tokenEnv)) {
+          problems.push(`"registries[${index}].tokenEnv" must start with ${REGISTRY_ENV_PREFIX}`);
+        }
+        if (registry.headers !== undefined &&
+            !(isObject(registry.headers) && Object.values(registry.headers).every((v) => typeof v === 'string'))) {
+          problems.push(`"registries[${index}].headers" must map header names to strings`);
+        } else if (registry.headers !== undefined) {
+          const names = Object.values(registry.headers as Record<string, string>).flatMap(getEnvReferences);
+          for (const name of names.filter((name) => !isRegistryEnv(name))) {
+            problems.push(`"registries[${index}].headers" can only read variables starting with ${REGISTRY_ENV_PREFIX}, not ${name}`);
+          }
+        }
+      });
+    }
+  }
+
+  for (const key of ['defaultRegistry', 'allowUnpinned']) {
+    if (data[key] !== undefined && typeof data[key] !== 'boolean') {
+      problems.push(`"${key}" must be true or false`);
+    }
+  }
+
+  for (const key of ['targets', 'include', 'exclude', 'ignoreDependencies']) {
+    if (data[key] !== undefined && !isStringArray(data[key])) {
+      problems.push(`"${key}" must be an array of strings`);
+    }
+  }
+
+  if (data.skillTargets !== undefined) {
+    if (!isObject(data.skillTargets)) {
+      problems.push('"skillTargets" must map skill ids to arrays of targets');
+    } else {
+      for (const [id, targets] of Object.entries(data.skillTargets)) {
+        if (!isStringArray(targets)) {
+          problems.push(`"skillTargets.${id}" must be an array of strings`);
+        }
+      }
+    }
+  }
+
+  if (data.customTargets !== undefined) {
+    if (!Array.isArray(data.customTargets)) {
+      problems.push('"customTargets" must be an array');
+    } else {
+      data.customTargets.forEach((target, index) => {
+        problems.push(...validateCustomTarget(target).map((problem) => `"customTargets[${index}]" ${problem}`));
+      });
+    }
+  }
+
+  if (data.cursorMode !== undefined && data.cursorMode !== 'skills' && data.cursorMode !== 'rules') {
+    problems.push('"cursorMode" must be "skills" or "rules"');
+  }
+
+  if (data.preselectThreshold !== undefined &&
+      !(typeof data.preselectThreshold === 'number' && data.preselectThreshold >= 0 && data.preselectThreshold <= 100)) {
+    problems.push('"preselectThreshold" must be a number from 0 to 100');
+  }
+
+  return problems;
+}
+
+function validateCustomTarget(target: unknown): string[] {
+  if (!isObject(target)) {
+    return ['must be an object'];
+  }
+
+  const problems: string[] = [];
+  if (typeof target.type !== 'string' || target.type === '') {
+    problems.push('needs a "type"');
+  }
+  if (typeof target.directory !== 'string' || target.directory === '') {
+    problems.push('needs a "directory"');
+  } else if (!isInsideProject(target.directory)) {
+    problems.push('"directory" must be a relative path inside the project');
+  }
+  if (target.layout !== 'folder' && target.layout !== 'file') {
+    problems.push('"layout" must be "folder" or "file"');
+  }
+  if (target.detect !== undefined && !isStringArray(target.detect)) {
+    problems.push('"detect" must be an array of strings');
+  }
+  for (const key of ['fileName', 'extension']) {
+    if (target[key] !== undefined && typeof target[key] !== 'string') {
+      problems.push(`"${key}" must be a string`);
+    }
+  }
+  if (target.frontmatter !== undefined && target.frontmatter !== 'keep' && target.frontmatter !== 'strip') {
+    problems.push('"frontmatter" must be "keep" or "strip"');
+  }
+  if (target.alwaysInstall !== undefined && typeof target.alwaysInstall !== 'boolean') {
+    problems.push('"alwaysInstall" must be true or false');
+  }
+  return problems;
+}
+
+/**
+ * Whether a relative path stays inside the project (no absolute path or `..` escaping it)
+ */
+function isInsideProject(path: string): boolean {
+  try {
+    normalizeSkillPath(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Registries are URLs or directories relative to the project
+ */
+function resolveRegistry(directory: string, registry: string | RegistryConfig): RegistryConfig {
+  const resolved = typeof registry === 'string' ? { url: registry } : registry;
+  const isUrl = /^[a-z][a-z0-9+.-]*:\/\//i.test(resolved.url);
+  return { ...resolved, url: isUrl ? resolved.url : resolve(directory, resolved.url) };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
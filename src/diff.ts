@@ -0,0 +1,164 @@
+/**
+ * A line of a line-based diff
+ */
+export interface DiffLine {
+  type: 'equal' | 'added' | 'removed';
+  line: string;
+}
+
+/**
+ * Compute a line diff between two texts (longest common subsequence)
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before === '' ? [] : before.split('\n');
+  const b = after === '' ? [] : after.split('\n');
+
+  // Trim the common prefix and suffix to keep the LCS table small
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const n = endA - start;
+  const m = endB - start;
+  const table = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i * (m + 1) + j] =
+        a[start + i] === b[start + j]
+          ? table[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(table[(i + 1) * (m + 1) + j], table[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = a.slice(0, start).map((line) => ({ type: 'equal', line }));
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && a[start + i] === b[start + j]) {
+      result.push({ type: 'equal', line: a[start + i] });
+      i++;
+      j++;
+    } else if (j < m && (i === n || table[i * (m + 1) + j + 1] >= table[(i + 1) * (m + 1) + j])) {
+      result.push({ type: 'added', line: b[start + j] });
+      j++;
+    } else {
+      result.push({ type: 'removed', line: a[start + i] });
+      i++;
+    }
+  }
+  result.push(...a.slice(endA).map((line): DiffLine => ({ type: 'equal', line })));
+
+  return result;
+}
+
+/**
+ * Count added and removed lines between two texts
+ */
+export function summarizeDiff(before: string, after: string): { added: number; removed: number } {
+  let added = 0;
+  let removed = 0;
+  for (const { type } of diffLines(before, after)) {
+    if (type === 'added') added++;
+    if (type === 'removed') removed++;
+  }
+  return { added, removed };
+}
+
+/**
+ * A change of one side of a merge: base lines [start, end) replaced by `lines`
+ */
+interface Hunk {
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+/**
+ * Merge the changes made to `base` in `local` and in `upstream`, line by line.
+ * Overlapping changes that differ are kept both, between git-style conflict markers.
+ */
+export function mergeThreeWay(
+  base: string,
+  local: string,
+  upstream: string
+): { content: string; conflicts: number } {
+  const baseLines = base === '' ? [] : base.split('\n');
+  const localHunks = toHunks(diffLines(base, local)).map((hunk) => ({ ...hunk, side: 'local' as const }));
+  const upstreamHunks = toHunks(diffLines(base, upstream)).map((hunk) => ({ ...hunk, side: 'upstream' as const }));
+  const hunks = [...localHunks, ...upstreamHunks].sort((a, b) => a.start - b.start || a.end - b.end);
+
+  const result: string[] = [];
+  let conflicts = 0;
+  let position = 0;
+  let i = 0;
+  while (i < hunks.length) {
+    // Group the hunks that overlap or touch: they change the same region
+    const group = [hunks[i]];
+    let end = hunks[i].end;
+    while (++i < hunks.length && hunks[i].start <= end) {
+      group.push(hunks[i]);
+      end = Math.max(end, hunks[i].end);
+    }
+    const start = group[0].start;
+
+    result.push(...baseLines.slice(position, start));
+    position = end;
+
+    const localRegion = applyHunks(baseLines, start, end, group.filter((hunk) => hunk.side === 'local'));
+    const upstreamRegion = applyHunks(baseLines, start, end, group.filter((hunk) => hunk.side === 'upstream'));
+    if (group.every((hunk) => hunk.side === 'local')) {
+      result.push(...localRegion);
+    } else if (group.every((hunk) => hunk.side === 'upstream') || localRegion.join('\n') === upstreamRegion.join('\n')) {
+      result.push(...upstreamRegion);
+    } else {
+      conflicts++;
+      result.push('<<<<<<< local', ...localRegion, '=======', ...upstreamRegion, '>>>>>>> upstream');
+    }
+  }
+  result.push(...baseLines.slice(position));
+
+  return { content: result.join('\n'), conflicts };
+}
+
+function toHunks(diff: DiffLine[]): Hunk[] {
+  const hunks: Hunk[] = [];
+  let baseIndex = 0;
+  let current: Hunk | null = null;
+  for (const { type, line } of diff) {
+    if (type === 'equal') {
+      current = null;
+      baseIndex++;
+      continue;
+    }
+    if (!current) {
+      current = { start: baseIndex, end: baseIndex, lines: [] };
+      hunks.push(current);
+    }
+    if (type === 'removed') {
+      baseIndex++;
+      current.end = baseIndex;
+    } else {
+      current.lines.push(line);
+    }
+  }
+  return hunks;
+}
+
+/**
+ * The lines of base [start, end) after applying one side's hunks that fall in that range
+ */
+function applyHunks(baseLines: string[], start: number, end: number, hunks: Hunk[]): string[] {
+  const lines: string[] = [];
+  let position = start;
+  for (const hunk of hunks) {
+    lines.push(...baseLines.slice(position, hunk.start), ...hunk.lines);
+    position = hunk.end;
+  }
+  lines.push(...baseLines.slice(position, end));
+  return lines;
+}
@@ -1,12 +1,56 @@
-import { readFile } from 'node:fs/promises';
+import { readFile, readdir } from 'node:fs/promises';
+import { join, relative, sep, extname } from 'node:path';
 import { fileURLToPath } from 'node:url';
-import type { Skill, SkillsIndex, Config } from './types.js';
+import { extractTarball } from './tarball.js';
+import { HttpCache, type CacheMetadata } from './cache.js';
+import { normalizeSkillPath } from './paths.js';
+import { getAuthHeaders, getAuthHint } from './auth.js';
+import { computeIntegrity, matchesIntegrity } from './integrity.js';
+import { fetchWithRetry, type FetchedResponse } from './retry.js';
+import { SKILL_MAIN_FILE, type Skill, type SkillFile, type SkillFiles, type SkillsIndex, type Config } from './types.js';
+
+/**
+ * Extensions stored as text; everything else is kept as binary
+ */
+const TEXT_EXTENSIONS = new Set([
+  '.md', '.mdc', '.txt', '.json', '.yaml', '.yml', '.toml',
+  '.js', '.mjs', '.cjs', '.ts', '.tsx', '.jsx', '.sh', '.py', '.html', '.css', '.xml', '.svg',
+]);
+
+/**
+ * GitHub coordinates of a skills.sh skill
+ */
+export interface SkillsShSlug {
+  org: string;
+  repo: string;
+  skill: string;
+}
+
+/**
+ * Parse a skills.sh URL (https://skills.sh/{org}/{repo}/{skill})
+ */
+export function parseSkillsShUrl(url: string): SkillsShSlug | null {
+  const match = url.match(/^https:\/\/skills\.sh\/([\w.-]+)\/([\w.-]+)\/([\w.-]+)\/?$/);
+  return match ? { org: match[1], repo: match[2], skill: match[3] } : null;
+}
+
+/**
+ * Encode a repository path for a raw file URL, keeping its slashes
+ */
+function encodeRepoPath(path: string): string {
+  return path.split('/').map(encodeURIComponent).join('/');
+}
 
 /**
  * Download skills and index from GitHub
  */
 export class SkillDownloader {
-  constructor(private config: Config) {}
+  private cache: HttpCache;
+  private staleResponses: CacheMetadata[] = [];
+
+  constructor(private config: Config) {
+    this.cache = new HttpCache(config.cacheDirectory);
+  }
 
   /**
    * Fetch the skills index from the registry
@@ -21,44 +65,446 @@ export class SkillDownloader {
       return JSON.parse(content) as SkillsIndex;
     }
 
-    const response = await fetch(url);
-    if (!response.ok) {
-      throw new Error(`Failed to fetch skills index: ${response.status} ${response.statusText}`);
+    const content = await this.fetchRemote(url, 'Failed to fetch skills index');
+    if (!content) {
+      throw new Error(`Failed to fetch skills index: ${this.describeNotFound(url)}`);
     }
 
-    return (await response.json()) as SkillsIndex;
+    return JSON.parse(content.toString('utf-8')) as SkillsIndex;
   }
 
   /**
-   * Fetch a skill's content from the registry (direct path only).
-   * Skills sourced via skills.sh are installed with installViaSkillsCli instead.
+   * Cached responses served without revalidation (offline mode or network down)
    */
-  async fetchSkillContent(skill: Skill): Promise<Map<string, string>> {
-    const files = new Map<string, string>();
+  getStaleResponses(): CacheMetadata[] {
+    return [...this.staleResponses];
+  }
 
+  /**
+   * Fetch all files of a skill: its main file and supporting files, a local directory,
+   * a tarball or the skills.sh skill it points to.
+   * Downloads are checked against their pinned `integrity`; with `allowUnpinned: false`,
+   * skills with a remote source that is not pinned are refused.
+   */
+  async fetchSkillContent(skill: Skill): Promise<SkillFiles> {
+    if (this.config.allowUnpinned === false) {
+      const unpinned = this.getRemoteSources(skill).filter((source) => !source.integrity);
+      if (unpinned.length > 0) {
+        throw new Error(`Skill "${skill.id}" is not pinned: no integrity for ${unpinned.map((s) => s.url).join(', ')}`);
+      }
+    }
+
+    if (skill.skillsShUrl) {
+      return this.fetchSkillsSh(skill, skill.skillsShUrl);
+    }
+    if (skill.tarball) {
+      return this.fetchTarball(skill, skill.tarball);
+    }
+    if (skill.directory) {
+      return this.readDirectory(skill, skill.directory);
+    }
     if (!skill.path) {
-      throw new Error(`Skill "${skill.id}" has no direct path — use installViaSkillsCli for skills.sh skills`);
+      throw new Error(`Skill "${skill.id}" has no source (path, files, directory, tarball or skillsShUrl)`);
     }
 
-    const isAbsolutePath = skill.path.startsWith('http://') ||
-                           skill.path.startsWith('https://') ||
-                           skill.path.startsWith('file://');
-    const skillUrl = isAbsolutePath ? skill.path : `${this.config.registryUrl}/${skill.path}`;
+    const files: SkillFiles = new Map();
+    const skillUrl = this.resolveUrl(skill, skill.path);
+    files.set(SKILL_MAIN_FILE, (await this.fetchBytes(skill, skillUrl, skill.integrity)).toString('utf-8'));
 
-    // Handle local file:// URLs for testing
-    if (skillUrl.startsWith('file://')) {
-      const filePath = fileURLToPath(skillUrl);
-      const content = await readFile(filePath, 'utf-8');
-      files.set('content', content);
+    for (const file of skill.files ?? []) {
+      const path = normalizeSkillPath(file.path);
+      files.set(path, this.decode(path, await this.fetchBytes(skill, this.resolveFileUrl(skill, file), file.integrity)));
+    }
+
+    return files;
+  }
+
+  /**
+   * Fetch only the main file of a skill, e.g. for a preview: no folder listing or supporting files.
+   * Returns null for `tarball` skills, whose main file is only known once the archive is downloaded.
+   */
+  async fetchMainFile(skill: Skill): Promise<string | null> {
+    if (skill.skillsShUrl) {
+      return (await this.findSkillsShMain(skill, skill.skillsShUrl)).content.toString('utf-8');
+    }
+    if (skill.tarball) {
+      return null;
+    }
+    if (skill.directory) {
+      const main = (await this.readDirectory(skill, skill.directory)).get(SKILL_MAIN_FILE);
+      return typeof main === 'string' ? main : null;
+    }
+    if (!skill.path) {
+      throw new Error(`Skill "${skill.id}" has no source (path, files, directory, tarball or skillsShUrl)`);
+    }
+    return (await this.fetchBytes(skill, this.resolveUrl(skill, skill.path), skill.integrity)).toString('utf-8');
+  }
+
+  /**
+   * Compute the integrity of every source of a skill, as of now.
+   * Returns the skill with `integrity` set on it and on its files; `directory` skills cannot be pinned.
+   */
+  async pinSkill(skill: Skill): Promise<Skill> {
+    const pin = async (url: string): Promise<string> => computeIntegrity(await this.fetchBytes(skill, url));
+
+    if (skill.skillsShUrl) {
+      const { slug, base, path, content } = await this.findSkillsShMain({ ...skill, integrity: undefined }, skill.skillsShUrl);
+      const listed = await this.listSkillsShFolder(skill, slug, path);
+      if (!listed) {
+        return { ...skill, integrity: computeIntegrity(content), files: undefined };
+      }
+      const files = [];
+      for (const file of listed) {
+        files.push({ path: file.path, integrity: await pin(`${base}/${encodeRepoPath(file.repoPath)}`) });
+      }
+      return { ...skill, integrity: computeIntegrity(content), files };
+    }
+    if (skill.tarball) {
+      return { ...skill, integrity: await pin(this.resolveUrl(skill, skill.tarball)) };
+    }
+    if (skill.directory || !skill.path) {
+      return skill;
+    }
+
+    const files = [];
+    for (const file of skill.files ?? []) {
+      files.push({ ...file, integrity: await pin(this.resolveFileUrl(skill, file)) });
+    }
+    return {
+      ...skill,
+      integrity: await pin(this.resolveUrl(skill, skill.path)),
+      ...(skill.files ? { files } : {}),
+    };
+  }
+
+  /**
+   * Where the main content of a skill comes from, for display
+   */
+  getSourceUrl(skill: Skill): string | null {
+    if (skill.skillsShUrl) return skill.skillsShUrl;
+    if (skill.tarball) return this.resolveUrl(skill, skill.tarball);
+    if (skill.directory) return skill.directory;
+    return skill.path ? this.resolveUrl(skill, skill.path) : null;
+  }
+
+  /**
+   * Remote URLs a skill is downloaded from, with their pinned integrity
+   */
+  private getRemoteSources(skill: Skill): { url: string; integrity?: string }[] {
+    let sources: { url: string; integrity?: string }[];
+    if (skill.skillsShUrl) {
+      // Supporting files are only known once listed: fetchSkillsSh refuses unpinned ones
+      sources = [
+        { url: skill.skillsShUrl, integrity: skill.integrity },
+        ...(skill.files ?? []).map((file) => ({ url: `${skill.skillsShUrl}/${file.path}`, integrity: file.integrity })),
+      ];
+    } else if (skill.tarball) {
+      sources = [{ url: this.resolveUrl(skill, skill.tarball), integrity: skill.integrity }];
+    } else if (skill.path && !skill.directory) {
+      sources = [
+        { url: this.resolveUrl(skill, skill.path), integrity: skill.integrity },
+        ...(skill.files ?? []).map((file) => ({ url: this.resolveFileUrl(skill, file), integrity: file.integrity })),
+      ];
+    } else {
+      sources = [];
+    }
+    return sources.filter((source) => !source.url.startsWith('file://'));
+  }
+
+  /**
+   * Fetch a skills.sh skill: its main file and the other files of its folder
+   * (references, rules, scripts). Pinned skills list those files in `files`; otherwise they are
+   * listed through the GitHub API, best-effort: when the listing fails only the main file is installed.
+   */
+  private async fetchSkillsSh(skill: Skill, skillsShUrl: string): Promise<SkillFiles> {
+    const { slug, base, path, content } = await this.findSkillsShMain(skill, skillsShUrl);
+    const files: SkillFiles = new Map([[SKILL_MAIN_FILE, content.toString('utf-8')]]);
+    const folder = path.slice(0, path.lastIndexOf('/') + 1);
+
+    if (skill.files) {
+      for (const file of skill.files) {
+        const relativePath = normalizeSkillPath(file.path);
+        const url = `${base}/${encodeRepoPath(folder + relativePath)}`;
+        files.set(relativePath, this.decode(relativePath, await this.fetchBytes(skill, url, file.integrity)));
+      }
       return files;
     }
 
-    const response = await fetch(skillUrl);
-    if (!response.ok) {
-      throw new Error(`Failed to fetch skill ${skill.id}: ${response.status} ${response.statusText}`);
+    let listed: { path: string; repoPath: string }[] | null;
+    try {
+      listed = await this.listSkillsShFolder(skill, slug, path);
+    } catch {
+      // Rate limits, missing credentials or the API being down
+      listed = null;
+    }
+    if (!listed || listed.length === 0) {
+      return files;
+    }
+    if (this.config.allowUnpinned === false) {
+      throw new Error(
+        `Skill "${skill.id}" is not pinned: no integrity for ${listed.map((file) => `${skillsShUrl}/${file.path}`).join(', ')}`
+      );
+    }
+
+    for (const file of listed) {
+      files.set(file.path, this.decode(file.path, await this.fetchBytes(skill, `${base}/${encodeRepoPath(file.repoPath)}`)));
+    }
+    return files;
+  }
+
+  /**
+   * List the files next to a skills.sh main file through the GitHub API.
+   * Returns null for repositories the API does not know (e.g. a mirror in githubRawUrl).
+   */
+  private async listSkillsShFolder(
+    skill: Skill,
+    slug: SkillsShSlug,
+    mainPath: string
+  ): Promise<{ path: string; repoPath: string }[] | null> {
+    const folder = mainPath.slice(0, mainPath.lastIndexOf('/') + 1);
+    const listingUrl = `${this.config.githubApiUrl}/repos/${slug.org}/${slug.repo}/git/trees/${this.config.defaultBranch}?recursive=1`;
+    const listing = await this.fetchRemote(listingUrl, `Failed to list the files of skill ${skill.id}`);
+    if (!listing) {
+      return null;
+    }
+
+    const { tree } = JSON.parse(listing.toString('utf-8')) as { tree: { path: string; type: string }[] };
+    return tree
+      .filter((entry) => entry.type === 'blob' && entry.path.startsWith(folder) && entry.path !== mainPath)
+      .map((entry) => ({ path: normalizeSkillPath(entry.path.slice(folder.length)), repoPath: entry.path }));
+  }
+
+  /**
+   * Resolve a skills.sh slug to the main skill file in its GitHub repository.
+   * The pinned `integrity` covers this file.
+   */
+  private async findSkillsShMain(
+    skill: Skill,
+    skillsShUrl: string
+  ): Promise<{ slug: SkillsShSlug; base: string; path: string; content: Buffer }> {
+    const slug = parseSkillsShUrl(skillsShUrl);
+    if (!slug) {
+      throw new Error(`Invalid skills.sh URL: ${skillsShUrl}`);
+    }
+
+    const base = `${this.config.githubRawUrl}/${slug.org}/${slug.repo}/${this.config.defaultBranch}`;
+    const candidates = [
+      `skills/${slug.skill}/${SKILL_MAIN_FILE}`,
+      `skills/${slug.skill}/AGENTS.md`,
+      `${slug.skill}/${SKILL_MAIN_FILE}`,
+      `.claude/skills/${slug.skill}/${SKILL_MAIN_FILE}`,
+    ];
+
+    // Offline or with the network down, only the candidate that resolved before is cached:
+    // keep probing past the ones that fail and report the first failure if none answers
+    let failure: unknown;
+    for (const candidate of candidates) {
+      const url = `${base}/${candidate}`;
+      let content: Buffer | null;
+      try {
+        content = await this.tryFetchBytes(skill, url);
+      } catch (error) {
+        failure ??= error;
+        continue;
+      }
+      if (content) {
+        this.verifyIntegrity(skill, url, content, skill.integrity);
+        return { slug, base, path: candidate, content };
+      }
+    }
+
+    if (failure) {
+      throw failure;
     }
+    throw new Error(`Could not find skill "${slug.skill}" in github.com/${slug.org}/${slug.repo}`);
+  }
+
+  /**
+   * Download a tarball and keep the files of the skill folder
+   */
+  private async fetchTarball(skill: Skill, tarball: string): Promise<SkillFiles> {
+    let entries = [...extractTarball(await this.fetchBytes(skill, this.resolveUrl(skill, tarball), skill.integrity))];
+
+    // GitHub archives wrap everything in a single "{repo}-{ref}/" folder
+    const topLevel = new Set(entries.map(([path]) => path.split('/')[0]));
+    if (topLevel.size === 1 && entries.every(([path]) => path.includes('/'))) {
+      entries = entries.map(([path, content]) => [path.slice(path.indexOf('/') + 1), content]);
+    }
+
+    const root = skill.tarballRoot ? `${normalizeSkillPath(skill.tarballRoot)}/` : '';
+    const files: SkillFiles = new Map();
+    for (const [path, content] of entries) {
+      if (!path.startsWith(root) || path.endsWith('/')) continue;
+      const relativePath = normalizeSkillPath(path.slice(root.length));
+      files.set(relativePath, this.decode(relativePath, content));
+    }
+
+    return this.requireMainFile(skill, files);
+  }
 
-    files.set('content', await response.text());
+  /**
+   * Read a skill folder from the local filesystem
+   */
+  private async readDirectory(skill: Skill, directory: string): Promise<SkillFiles> {
+    const url = this.resolveUrl(skill, directory);
+    if (!url.startsWith('file://')) {
+      throw new Error(`Skill "${skill.id}": directory sources must be local, use "files" or "tarball" for remote skills`);
+    }
+
+    const root = fileURLToPath(url);
+    const files: SkillFiles = new Map();
+    const walk = async (dir: string): Promise<void> => {
+      for (const entry of await readdir(dir, { withFileTypes: true })) {
+        const absolutePath = join(dir, entry.name);
+        if (entry.isDirectory()) {
+          await walk(absolutePath);
+        } else if (entry.isFile()) {
+          const relativePath = normalizeSkillPath(relative(root, absolutePath).split(sep).join('/'));
+          files.set(relativePath, this.decode(relativePath, await readFile(absolutePath)));
+        }
+      }
+    };
+    await walk(root);
+
+    return this.requireMainFile(skill, files);
+  }
+
+  private requireMainFile(skill: Skill, files: SkillFiles): SkillFiles {
+    if (!files.has(SKILL_MAIN_FILE)) {
+      throw new Error(`Skill "${skill.id}" has no ${SKILL_MAIN_FILE} in its folder`);
+    }
     return files;
   }
+
+  /**
+   * Resolve a path relative to the skill's registry to an absolute URL
+   */
+  private resolveUrl(skill: Skill, path: string): string {
+    const isAbsolutePath = path.startsWith('http://') ||
+                           path.startsWith('https://') ||
+                           path.startsWith('file://');
+    return isAbsolutePath ? path : `${skill.registry ?? this.config.registryUrl}/${path}`;
+  }
+
+  /**
+   * Supporting files are resolved relative to the main file unless they have their own URL
+   */
+  private resolveFileUrl(skill: Skill, file: SkillFile): string {
+    return file.url
+      ? this.resolveUrl(skill, file.url)
+      : new URL(normalizeSkillPath(file.path), this.resolveUrl(skill, skill.path ?? '')).href;
+  }
+
+  private async fetchBytes(skill: Skill, url: string, integrity?: string): Promise<Buffer> {
+    const content = await this.tryFetchBytes(skill, url);
+    if (!content) {
+      throw new Error(`Failed to fetch skill ${skill.id}: ${this.describeNotFound(url)}`);
+    }
+    this.verifyIntegrity(skill, url, content, integrity);
+    return content;
+  }
+
+  /**
+   * Refuse content that does not match its pinned integrity
+   */
+  private verifyIntegrity(skill: Skill, url: string, content: Buffer, integrity?: string): void {
+    if (integrity && !matchesIntegrity(content, integrity)) {
+      throw new Error(
+        `Integrity check failed for skill ${skill.id}: ${url} is ${computeIntegrity(content)}, expected ${integrity}`
+      );
+    }
+  }
+
+  /**
+   * Fetch a file, returning null when it does not exist
+   */
+  private async tryFetchBytes(skill: Skill, url: string): Promise<Buffer | null> {
+    // Handle local file:// URLs for testing
+    if (url.startsWith('file://')) {
+      try {
+        return await readFile(fileURLToPath(url));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+    }
+
+    return this.fetchRemote(url, `Failed to fetch skill ${skill.id}`);
+  }
+
+  /**
+   * Fetch a URL through the on-disk cache, revalidating with ETag / Last-Modified.
+   * Network errors, timeouts and server errors are retried, then the cached copy is used if any.
+   * Returns null on 404.
+   */
+  private async fetchRemote(url: string, errorMessage: string): Promise<Buffer | null> {
+    const mode = this.config.cacheMode ?? 'default';
+    const cached = mode === 'refresh' ? null : await this.cache.get(url);
+
+    if (mode === 'offline') {
+      if (!cached) {
+        throw new Error(`${errorMessage}: not available offline (${url} is not cached)`);
+      }
+      this.staleResponses.push(cached.metadata);
+      return cached.body;
+    }
+
+    // Credentials only go in request headers: never in URLs, messages or the cache
+    const auth = this.getAuthHeaders(url);
+    const headers: Record<string, string> = { ...auth };
+    if (cached?.metadata.etag) headers['If-None-Match'] = cached.metadata.etag;
+    if (cached?.metadata.lastModified) headers['If-Modified-Since'] = cached.metadata.lastModified;
+
+    let fetched: FetchedResponse;
+    try {
+      fetched = await fetchWithRetry(url, { headers });
+    } catch (error) {
+      if (cached) {
+        this.staleResponses.push(cached.metadata);
+        return cached.body;
+      }
+      throw new Error(`${errorMessage}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const { response, body } = fetched;
+    if (response.status === 304 && cached) {
+      await this.cache.touch(cached);
+      return cached.body;
+    }
+    if (response.status === 404) {
+      return null;
+    }
+    if (response.status === 401) {
+      throw new Error(`${errorMessage}: 401 Unauthorized (${
+        auth.Authorization ? 'the registry rejected the credentials' : `authentication required: ${getAuthHint(url)}`
+      })`);
+    }
+    if (response.status === 403) {
+      throw new Error(`${errorMessage}: 403 Forbidden (${
+        auth.Authorization ? 'the credentials do not grant access, or the rate limit was hit' : getAuthHint(url)
+      })`);
+    }
+    if (!response.ok) {
+      throw new Error(`${errorMessage}: ${response.status} ${response.statusText}`);
+    }
+
+    await this.cache.set(url, body, response.headers);
+    return body;
+  }
+
+  private getAuthHeaders(url: string): Record<string, string> {
+    return getAuthHeaders(url, this.config.registries ?? [{ url: this.config.registryUrl }]);
+  }
+
+  /**
+   * Explain a 404: private repositories look missing when fetched without credentials
+   */
+  private describeNotFound(url: string): string {
+    const anonymous = url.startsWith('http') && !this.getAuthHeaders(url).Authorization;
+    return anonymous ? `404 Not Found (${getAuthHint(url)})` : '404 Not Found';
+  }
+
+  private decode(path: string, content: Buffer): string | Buffer {
+    return TEXT_EXTENSIONS.has(extname(path).toLowerCase()) ? content.toString('utf-8') : content;
+  }
 }
@@ -0,0 +1,175 @@
+export type FrontmatterValue = string | boolean | number | string[];
+
+/**
+ * A markdown document split into its YAML frontmatter and body
+ */
+export interface FrontmatterDocument {
+  data: Record<string, FrontmatterValue>;
+  body: string;
+}
+
+const FRONTMATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+
+/**
+ * How the value of a key continues on the lines after it
+ */
+interface OpenValue {
+  key: string;
+  /** `empty`: nothing after the colon (a list, a nested map or a multi-line scalar follows);
+   * `literal` / `folded`: a `|` or `>` block scalar; `plain`: a scalar that may wrap */
+  style: 'empty' | 'literal' | 'folded' | 'plain';
+  raw: string;
+  lines: string[];
+}
+
+/**
+ * Parse the frontmatter of a markdown document.
+ * Supports the subset of YAML used by skill files: scalars (wrapped or as `|` / `>` blocks)
+ * and lists. Nested maps (e.g. `metadata:`) are skipped, having no place in the flat result.
+ * Throws on lines that cannot be parsed.
+ */
+export function parseFrontmatter(content: string): FrontmatterDocument {
+  const match = content.match(FRONTMATTER_PATTERN);
+  if (!match) {
+    return { data: {}, body: content };
+  }
+
+  const data: Record<string, FrontmatterValue> = {};
+  let open: OpenValue | null = null;
+  const close = () => {
+    if (open) closeValue(open, data);
+    open = null;
+  };
+
+  for (const [index, line] of match[1].split(/\r?\n/).entries()) {
+    if (line.trim() === '') {
+      open?.lines.push('');
+      continue;
+    }
+    if (line.startsWith('#')) continue;
+
+    // Indented lines, and list items right under their key, continue the open value
+    const continues = /^\s/.test(line) || (open?.style === 'empty' && /^-(\s|$)/.test(line));
+    if (continues && open) {
+      open.lines.push(line);
+      continue;
+    }
+
+    const pair = line.match(/^([A-Za-z0-9_-]+):\s*(.*)$/);
+    if (continues || !pair) {
+      throw new Error(`Invalid frontmatter on line ${index + 2}: "${line}"`);
+    }
+
+    close();
+    const [, key, raw] = pair;
+    const value = raw.trim();
+    const style = value === '' ? 'empty'
+      : /^\|[+-]?\d*$/.test(value) ? 'literal'
+      : /^>[+-]?\d*$/.test(value) ? 'folded'
+      : 'plain';
+    open = { key, style, raw: value, lines: [] };
+  }
+  close();
+
+  return { data, body: content.slice(match[0].length) };
+}
+
+/**
+ * Remove the frontmatter block of a markdown document, parseable or not
+ */
+export function stripFrontmatter(content: string): string {
+  return content.replace(FRONTMATTER_PATTERN, '');
+}
+
+function closeValue({ key, style, raw, lines }: OpenValue, data: Record<string, FrontmatterValue>): void {
+  const filled = lines.filter((line) => line.trim() !== '');
+
+  if (style === 'literal' || style === 'folded') {
+    const indent = Math.min(...filled.map((line) => line.match(/^\s*/)![0].length));
+    const block = trimBlankLines(lines).map((line) => line.slice(indent));
+    data[key] = style === 'literal' ? block.join('\n') : foldLines(block);
+  } else if (style === 'plain') {
+    data[key] = parseValue([raw, ...filled.map((line) => line.trim())].join(' '));
+  } else if (filled.length === 0) {
+    data[key] = [];
+  } else if (filled.every((line) => /^\s*-(\s|$)/.test(line))) {
+    data[key] = filled.map((line) => String(parseScalar(line.replace(/^\s*-\s*/, ''))));
+  } else if (!filled.some((line) => /^\s*(-\s+)?["']?[\w.-]+["']?:(\s|$)/.test(line))) {
+    data[key] = parseScalar(filled.map((line) => line.trim()).join(' '));
+  }
+  // Otherwise a nested map: skipped
+}
+
+/**
+ * Join the lines of a `>` block: single line breaks become spaces, blank lines become line breaks
+ */
+function foldLines(lines: string[]): string {
+  return lines
+    .join('\n')
+    .split(/\n{2,}/)
+    .map((paragraph) => paragraph.replace(/\n/g, ' '))
+    .join('\n');
+}
+
+function trimBlankLines(lines: string[]): string[] {
+  let start = 0;
+  let end = lines.length;
+  while (start < end && lines[start].trim() === '') start++;
+  while (end > start && lines[end - 1].trim() === '') end--;
+  return lines.slice(start, end);
+}
+
+/**
+ * Serialize frontmatter and body back into a markdown document.
+ * Returns the body alone when there is no frontmatter.
+ * Keys listed in `verbatim` are written without YAML quoting (e.g. Cursor's `globs`).
+ */
+export function stringifyFrontmatter(
+  data: Record<string, FrontmatterValue | undefined>,
+  body: string,
+  verbatim: string[] = []
+): string {
+  const lines = Object.entries(data)
+    .filter((entry): entry is [string, FrontmatterValue] => entry[1] !== undefined)
+    .map(([key, value]) => `${key}: ${verbatim.includes(key) ? String(value) : formatValue(value)}`);
+
+  if (lines.length === 0) {
+    return body;
+  }
+  return `---\n${lines.join('\n')}\n---\n${body.startsWith('\n') ? '' : '\n'}${body}`;
+}
+
+function parseValue(raw: string): FrontmatterValue {
+  const trimmed = raw.trim();
+  if (trimmed.startsWith('[') && trimmed.endsWith(']')) {
+    const inner = trimmed.slice(1, -1).trim();
+    return inner === '' ? [] : inner.split(',').map((item) => String(parseScalar(item)));
+  }
+  return parseScalar(trimmed);
+}
+
+function parseScalar(raw: string): string | boolean | number {
+  const trimmed = raw.trim();
+  if (trimmed === 'true') return true;
+  if (trimmed === 'false') return false;
+  if (/^-?\d+(\.\d+)?$/.test(trimmed)) return Number(trimmed);
+  if (/^".*"$/.test(trimmed)) return trimmed.slice(1, -1).replace(/\\"/g, '"');
+  if (/^'.*'$/.test(trimmed)) return trimmed.slice(1, -1).replace(/''/g, "'");
+  return trimmed;
+}
+
+function formatValue(value: FrontmatterValue): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(quoteIfNeeded).join(', ')}]`;
+  }
+  if (typeof value === 'string') {
+    return quoteIfNeeded(value);
+  }
+  return String(value);
+}
+
+function quoteIfNeeded(value: string): string {
+  return /^[\w./@ -]*$/.test(value) && !/^(true|false|-?\d+(\.\d+)?)$/.test(value) && value.trim() === value && value !== ''
+    ? value
+    : JSON.stringify(value);
+}
@@ -0,0 +1,20 @@
+/**
+ * Convert a glob (`*`, `**`, `?`) into a regular expression on relative paths
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .replace(/^\.\//, '')
+    .replace(/\/+$/, '')
+    .split('/')
+    .map((segment) => {
+      if (segment === '**') return '(?:.+)?';
+      return segment
+        .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+        .replace(/\*/g, '[^/]*')
+        .replace(/\?/g, '[^/]');
+    })
+    .join('/')
+    .replace(/\(\?:\.\+\)\?\//g, '(?:.+/)?');
+
+  return new RegExp(`^${source}$`);
+}
@@ -1,23 +1,111 @@
 #!/usr/bin/env node
-import React, { useState, useEffect } from 'react';
-import { render, Box, Text } from 'ink';
+import React, { useState, useEffect, useRef } from 'react';
+import { homedir } from 'node:os';
+import { join, relative } from 'node:path';
+import { render, Box, Text, useApp, useInput } from 'ink';
 import Spinner from 'ink-spinner';
 import { MultiSelectCheckbox } from './components/MultiSelectCheckbox.js';
+import { SingleSelect } from './components/SingleSelect.js';
+import { TextInput } from './components/TextInput.js';
+import { UpdateApp, type UpdateOptions } from './commands/update.js';
+import { PruneApp, type PruneOptions } from './commands/prune.js';
+import { runCheck, type CheckOptions } from './commands/check.js';
+import { INSTALL_EXIT_CODES, runJson } from './commands/json.js';
+import { runPin, type PinOptions } from './commands/pin.js';
+import { runValidateRegistry, type ValidateRegistryOptions } from './commands/validate-registry.js';
 import { Command } from 'commander';
 import { ParserRegistry } from './parsers/base.js';
 import { NpmParser } from './parsers/npm.js';
-import { SkillMatcher } from './matcher.js';
+import { CONFIG_DEPENDENCY, SkillMatcher } from './matcher.js';
+import { describeMatch } from './ranking.js';
+import { addRequiredSkills, describeRelationships, findConflicts, getDefaultSelection } from './relationships.js';
+import { ProjectFiles } from './project-files.js';
+import {
+  PlaceholderResolver,
+  applyDefaults,
+  findPlaceholders,
+  getPlaceholderQuestions,
+  hasEditMarkers,
+  type PlaceholderQuestion,
+} from './placeholders.js';
 import { SkillDownloader } from './downloader.js';
-import { SkillInstaller } from './installer.js';
-import { DEFAULT_CONFIG, type Config, type MatchedSkill, type Target } from './types.js';
+import { RegistryLoader, getRegistries, getRegistryName, parseRegistryOption } from './registries.js';
+import { loadProjectConfig, parseTargetOptions, resolveConfig } from './config.js';
+import {
+  SkillInstaller,
+  applyPlans,
+  assignTargets,
+  canMerge,
+  getTargetAssignment,
+  planSelection,
+  resolveChanges,
+  type ConflictResolution,
+  type FileAction,
+  type FileChange,
+  type InstallFailure,
+  type SkillPlan,
+  type SkillProgress,
+  type TargetAssignment,
+} from './installer.js';
+import { SkillManifest } from './manifest.js';
+import { createTargetRegistry } from './targets/index.js';
+import { formatAge } from './cache.js';
+import { summarizeDiff } from './diff.js';
+import { parseFrontmatter, stripFrontmatter } from './frontmatter.js';
+import {
+  type Config,
+  type Dependency,
+  type MatchedSkill,
+  type RegistryConfig,
+  type Skill,
+  type Target,
+  type Workspace,
+} from './types.js';
 
 const program = new Command();
 
 interface CliOptions {
   directory: string;
-  registry: string;
+  registry: RegistryConfig[];
+  defaultRegistry: boolean;
   all?: boolean;
   list?: boolean;
+  workspace?: string;
+  cursorRules?: boolean;
+  offline?: boolean;
+  refresh?: boolean;
+  allowUnpinned?: boolean;
+  json?: boolean;
+  dryRun?: boolean;
+  onConflict?: ConflictResolution;
+  target: string[];
+  /** Install to the global targets: every skill, or the listed skill ids */
+  global?: boolean | string[];
+}
+
+/**
+ * Placeholder values of skills, keyed by skill id then placeholder name
+ */
+type PlaceholderValues = Record<string, Record<string, string>>;
+
+/**
+ * Ids of the skills offered in the list and of the ones selected
+ */
+interface SkillSelection {
+  offered: string[];
+  selected: string[];
+}
+
+/**
+ * An installed file whose placeholders or TO-EDIT comments were left as they are
+ */
+interface UnresolvedFile {
+  /** Absolute path */
+  path: string;
+  /** Names of the placeholders it still contains */
+  placeholders: string[];
+  /** Whether it still has `[TO-EDIT ...]` comments */
+  toEdit: boolean;
 }
 
 type AppState =
@@ -26,30 +114,164 @@ type AppState =
   | { step: 'no-packages' }
   | { step: 'no-skills' }
   | { step: 'no-targets'; skills: MatchedSkill[] }
-  | { step: 'selecting'; skills: MatchedSkill[]; targets: Target[] }
-  | { step: 'list-only'; skills: MatchedSkill[] }
-  | { step: 'installing'; selectedSkills: MatchedSkill[]; targets: Target[] }
-  | { step: 'done'; count: number; installedFiles: string[] }
+  | {
+      step: 'selecting';
+      skills: MatchedSkill[];
+      /** Where project targets are, unless a workspace is chosen */
+      directory: string;
+      workspaces: Workspace[];
+      placeholders: PlaceholderValues;
+    }
+  | {
+      step: 'choosing-location';
+      selectedSkills: MatchedSkill[];
+      workspaces: Workspace[];
+      placeholders: PlaceholderValues;
+    }
+  | { step: 'list-only'; skills: MatchedSkill[]; workspaces: Workspace[] }
+  | { step: 'choosing-targets'; selectedSkills: MatchedSkill[]; targets: Target[]; placeholders: PlaceholderValues }
+  | {
+      step: 'confirming-targets';
+      selectedSkills: MatchedSkill[];
+      /** The targets chosen */
+      targets: Target[];
+      assignment: TargetAssignment;
+      placeholders: PlaceholderValues;
+    }
+  | {
+      step: 'assigning-targets';
+      selectedSkills: MatchedSkill[];
+      targets: Target[];
+      assignment: TargetAssignment;
+      /** Position of the skill being assigned in `selectedSkills` */
+      index: number;
+      placeholders: PlaceholderValues;
+    }
+  | {
+      step: 'filling';
+      selectedSkills: MatchedSkill[];
+      targets: TargetAssignment;
+      placeholders: PlaceholderValues;
+      questions: PlaceholderQuestion[];
+    }
+  | { step: 'installing'; selectedSkills: MatchedSkill[]; targets: TargetAssignment; placeholders: PlaceholderValues }
+  | {
+      step: 'resolving';
+      plans: SkillPlan[];
+      failures: InstallFailure[];
+      conflicts: FileChange[];
+      answers: Map<FileChange, ConflictResolution>;
+    }
+  | { step: 'writing'; plans: SkillPlan[]; failures: InstallFailure[] }
+  | { step: 'planned'; plans: SkillPlan[]; failures: InstallFailure[] }
+  | {
+      step: 'done';
+      count: number;
+      installedFiles: string[];
+      failures: InstallFailure[];
+      conflicted: string[];
+      /** Installed files still containing placeholders, with their names */
+      unresolved: UnresolvedFile[];
+    }
   | { step: 'error'; message: string };
 
 interface AppProps {
   options: CliOptions;
+  config: Config;
 }
 
-const App: React.FC<AppProps> = ({ options }) => {
+const App: React.FC<AppProps> = ({ options, config }) => {
   const [state, setState] = useState<AppState>({ step: 'parsing' });
+  // Only name registries when skills can come from more than one
+  const registries = getRegistries(config);
+  const registryLabel = (match: MatchedSkill): string | null =>
+    registries.length > 1 ? getRegistryName(match.skill.registry ?? '', registries) : null;
+  // Oldest cached response served without revalidation, if any
+  const [staleSince, setStaleSince] = useState<Date | null>(null);
+  // Skill previews of the selection step, kept while moving around the list
+  const [downloader] = useState(() => new SkillDownloader(config));
+  const [previews] = useState(() => new Map<string, Promise<string[]>>());
+  // Download status of each skill being installed
+  const [progress, setProgress] = useState<Record<string, SkillProgress>>({});
+  // The last installation, to retry the skills that failed
+  const lastInstall = useRef<Extract<AppState, { step: 'installing' }> | null>(null);
+  // Skills offered and selected in the list, recorded in the manifest once installed
+  const selection = useRef<SkillSelection | undefined>(undefined);
+
+  // Ask for the placeholders that could not be filled from the project, then install.
+  // Global installs keep their placeholders, so skills installed only globally are not asked about.
+  const install = (selectedSkills: MatchedSkill[], targets: TargetAssignment, placeholders: PlaceholderValues) => {
+    const projectSkills = selectedSkills
+      .filter((match) => targets[match.skill.id]?.some((target) => !target.global))
+      .map((match) => match.skill);
+    const questions = getPlaceholderQuestions(projectSkills, placeholders);
+    setState(questions.length > 0
+      ? { step: 'filling', selectedSkills, targets, placeholders, questions }
+      : { step: 'installing', selectedSkills, targets, placeholders });
+  };
+
+  // Ask where the skills go (project or global targets), unless the command line says so
+  const chooseTargets = async (selectedSkills: MatchedSkill[], directory: string, placeholders: PlaceholderValues) => {
+    try {
+      const installer = new SkillInstaller(undefined, createTargetRegistry(config));
+      if (options.target.length > 0 || options.global) {
+        const assignment = await getTargetAssignment(selectedSkills, directory, config, installer, options.global);
+        install(selectedSkills, assignment, placeholders);
+        return;
+      }
+      const targets = [
+        ...await installer.detectTargets(directory, config.targets),
+        ...await installer.detectGlobalTargets(config.targets),
+      ];
+      setState({ step: 'choosing-targets', selectedSkills, targets, placeholders });
+    } catch (error) {
+      setState({
+        step: 'error',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+    }
+  };
+
+  // Let each skill go to some of the chosen targets only, then install
+  const assignNext = (state: Extract<AppState, { step: 'assigning-targets' }>, targets: Target[]) => {
+    const assignment = { ...state.assignment, [state.selectedSkills[state.index].skill.id]: targets };
+    if (state.index + 1 < state.selectedSkills.length) {
+      setState({ ...state, assignment, index: state.index + 1 });
+      return;
+    }
+    install(state.selectedSkills, assignment, state.placeholders);
+  };
 
   // Initial setup
   useEffect(() => {
     if (state.step === 'parsing') {
-      runSetup(options, setState);
+      runSetup(options, config, setState, setStaleSince);
     }
   }, []);
 
+  // Exit with a code telling how the run ended
+  useEffect(() => {
+    if (state.step === 'done' || state.step === 'planned') {
+      process.exitCode = state.failures.length > 0 ? INSTALL_EXIT_CODES.failed : INSTALL_EXIT_CODES.ok;
+    } else if (state.step === 'no-packages' || state.step === 'no-skills' ||
+        state.step === 'no-targets' || state.step === 'error') {
+      process.exitCode = INSTALL_EXIT_CODES[state.step];
+    }
+  }, [state.step]);
+
   // Installation effect
   useEffect(() => {
     if (state.step === 'installing') {
-      performInstallation(state.selectedSkills, state.targets, options, setState);
+      lastInstall.current = state;
+      setProgress({});
+      const onProgress = (id: string, status: SkillProgress) =>
+        setProgress((previous) => ({ ...previous, [id]: status }));
+      performInstallation(
+        state.selectedSkills, state.targets, state.placeholders, options, config, setState, setStaleSince, onProgress
+      );
+    }
+    if (state.step === 'writing') {
+      writePlans(state.plans, state.failures, options, config, setState, selection.current);
     }
   }, [state.step]);
 
@@ -117,17 +339,32 @@ const App: React.FC<AppProps> = ({ options }) => {
         <Box marginBottom={1}>
           <Text color="green">✓ Found {state.skills.length} matching skill(s):</Text>
         </Box>
-        {state.skills.map((match) => (
-          <Box key={match.skill.id} flexDirection="column" marginBottom={1}>
-            <Text bold color="cyan">
-              {match.skill.name}
-            </Text>
-            <Text color="gray">  {match.skill.description}</Text>
-            <Text color="gray">
-              {' '}
-              {match.dependency.name}@{match.dependency.version}
-            </Text>
-            <Text color="magenta">  Author: {match.skill.author}</Text>
+        <StaleNotice since={staleSince} offline={options.offline} />
+        {groupByWorkspace(state.skills, state.workspaces).map(([group, matches]) => (
+          <Box key={group} flexDirection="column">
+            {state.workspaces.length > 0 && (
+              <Box marginBottom={1}>
+                <Text bold color="magenta">{group}</Text>
+              </Box>
+            )}
+            {matches.map((match) => (
+              <Box key={match.skill.id} flexDirection="column" marginBottom={1}>
+                <Text bold color="cyan">
+                  {match.skill.name}
+                </Text>
+                <Text color="gray">  {match.skill.description}</Text>
+                <Text color="gray">  Matched: {describeMatch(match)}</Text>
+                <Text color="magenta">
+                  {'  '}Author: {match.skill.author}
+                  {registryLabel(match) && ` · Registry: ${registryLabel(match)}`}
+                  {` · Score: ${match.score}`}
+                  {match.skill.priority && match.skill.priority !== 'normal' && ` · Priority: ${match.skill.priority}`}
+                </Text>
+                {describeRelationships(match, state.skills) && (
+                  <Text color="yellow">  {describeRelationships(match, state.skills)}</Text>
+                )}
+              </Box>
+            ))}
           </Box>
         ))}
       </Box>
@@ -135,32 +372,197 @@ const App: React.FC<AppProps> = ({ options }) => {
   }
 
   if (state.step === 'selecting') {
-    const items = state.skills.map((match) => ({
-      label: `${match.skill.name} - by ${match.skill.author} (${match.dependency.name}@${match.dependency.version})`,
-      value: match,
-    }));
+    const items = groupByDependency(state.skills, state.workspaces).flatMap(([group, matches]) =>
+      matches.map((match) => ({
+        label: `${match.skill.name} - by ${match.skill.author}` +
+          (match.skill.priority && match.skill.priority !== 'normal' ? ` · ${match.skill.priority}` : '') +
+          (registryLabel(match) ? ` [${registryLabel(match)}]` : ''),
+        value: match,
+        group,
+        note: describeRelationships(match, state.skills) ?? undefined,
+        keywords: `${match.skill.id} ${match.skill.description}`,
+      }))
+    );
 
     return (
       <Box flexDirection="column">
         <Box marginBottom={1}>
           <Text color="green">✓ Found {state.skills.length} matching skill(s)</Text>
         </Box>
-        <Text color="gray">↑↓ to navigate, Space to toggle, Enter to confirm</Text>
+        <StaleNotice since={staleSince} offline={options.offline} />
+        <Text color="gray">↑↓ to navigate, Space to toggle, a/n for all/none, / to filter, Enter to confirm</Text>
         <Box marginTop={1}>
           <MultiSelectCheckbox
             items={items}
-            defaultSelected={items.map((item) => item.value)}
+            defaultSelected={getDefaultSelection(state.skills, config.preselectThreshold)}
+            expandSelection={(selected: MatchedSkill[]) => addRequiredSkills(selected, state.skills)}
+            getWarnings={findConflicts}
+            renderDetails={(match: MatchedSkill) => (
+              <SkillDetails match={match} downloader={downloader} previews={previews} />
+            )}
             onSubmit={(selectedItems: MatchedSkill[]) => {
+              selection.current = {
+                offered: state.skills.map((match) => match.skill.id),
+                selected: selectedItems.map((match) => match.skill.id),
+              };
               if (selectedItems.length === 0) {
-                setState({ step: 'done', count: 0, installedFiles: [] });
+                const done = () =>
+                  setState({ step: 'done', count: 0, installedFiles: [], failures: [], conflicted: [], unresolved: [] });
+                if (options.dryRun) {
+                  done();
+                  return;
+                }
+                recordSelection(options.directory, selection.current).then(done, (error: unknown) => setState({
+                  step: 'error',
+                  message: error instanceof Error ? error.message : 'Could not save the selection',
+                }));
                 return;
               }
 
-              setState({
-                step: 'installing',
-                selectedSkills: selectedItems,
-                targets: state.targets,
-              });
+              // In a monorepo, let the user choose where the skills go
+              if (state.workspaces.length > 0 && !options.workspace) {
+                setState({
+                  step: 'choosing-location',
+                  selectedSkills: selectedItems,
+                  workspaces: state.workspaces,
+                  placeholders: state.placeholders,
+                });
+                return;
+              }
+
+              chooseTargets(selectedItems, state.directory, state.placeholders);
+            }}
+          />
+        </Box>
+      </Box>
+    );
+  }
+
+  if (state.step === 'choosing-location') {
+    const items = [
+      { label: 'Repository root', value: '' },
+      ...state.workspaces.map((workspace) => ({
+        label: `${workspace.name} (${workspace.path})`,
+        value: workspace.path,
+      })),
+    ];
+
+    return (
+      <Box flexDirection="column">
+        <Text color="green">Where should the skills be installed?</Text>
+        <Text color="gray">↑↓ to navigate, Enter to confirm</Text>
+        <Box marginTop={1}>
+          <SingleSelect
+            items={items}
+            onSubmit={(workspacePath: string) => {
+              chooseTargets(state.selectedSkills, join(options.directory, workspacePath), state.placeholders);
+            }}
+          />
+        </Box>
+      </Box>
+    );
+  }
+
+  if (state.step === 'choosing-targets') {
+    return (
+      <Box flexDirection="column">
+        <Text color="green">Which agents should the skills be installed for?</Text>
+        <Text color="gray">↑↓ to navigate, Space to toggle, Enter to confirm</Text>
+        <Box marginTop={1}>
+          <MultiSelectCheckbox
+            items={state.targets.map((target) => toTargetItem(target, options.directory))}
+            defaultSelected={state.targets.filter((target) => !target.global)}
+            onSubmit={(targets: Target[]) => {
+              if (targets.length === 0) {
+                setState({ step: 'done', count: 0, installedFiles: [], failures: [], conflicted: [], unresolved: [] });
+                return;
+              }
+
+              const assignment = assignTargets(state.selectedSkills, targets, config.skillTargets);
+              if (state.selectedSkills.length > 1 && targets.length > 1) {
+                setState({ ...state, step: 'confirming-targets', targets, assignment });
+                return;
+              }
+              install(state.selectedSkills, assignment, state.placeholders);
+            }}
+          />
+        </Box>
+      </Box>
+    );
+  }
+
+  if (state.step === 'confirming-targets') {
+    const items = [
+      { label: 'Install every skill for the chosen agents', value: false },
+      { label: 'Choose the agents of each skill', value: true },
+    ];
+
+    return (
+      <Box flexDirection="column">
+        <Text color="green">Install every skill for the same agents?</Text>
+        <Text color="gray">↑↓ to navigate, Enter to confirm</Text>
+        <Box marginTop={1}>
+          <SingleSelect
+            items={items}
+            onSubmit={(perSkill: boolean) => {
+              if (perSkill) {
+                setState({ ...state, step: 'assigning-targets', index: 0 });
+                return;
+              }
+              install(state.selectedSkills, state.assignment, state.placeholders);
+            }}
+          />
+        </Box>
+      </Box>
+    );
+  }
+
+  if (state.step === 'assigning-targets') {
+    const { skill } = state.selectedSkills[state.index];
+    return (
+      <Box flexDirection="column">
+        <Text color="green">
+          Install {skill.name} for:
+        </Text>
+        <Text color="gray">
+          {state.index + 1}/{state.selectedSkills.length} · ↑↓ to navigate, Space to toggle, Enter to confirm
+        </Text>
+        <Box marginTop={1}>
+          <MultiSelectCheckbox
+            key={skill.id}
+            items={state.targets.map((target) => toTargetItem(target, options.directory))}
+            defaultSelected={state.assignment[skill.id]}
+            onSubmit={(targets: Target[]) => assignNext(state, targets)}
+          />
+        </Box>
+      </Box>
+    );
+  }
+
+  if (state.step === 'filling') {
+    const [question, ...remaining] = state.questions;
+    const { skill, name, placeholder } = question;
+    return (
+      <Box flexDirection="column">
+        <Text color="green">
+          {skill.name} needs a value for {`{{${name}}}`}
+        </Text>
+        <Text color="gray">  {placeholder.description} ({placeholder.type})</Text>
+        <Text color="gray">Enter to confirm; leave empty to keep the placeholder</Text>
+        <Box marginTop={1}>
+          <TextInput
+            key={`${skill.id}:${name}`}
+            placeholder={placeholder.type === 'import' ? '@/path/to/module' : undefined}
+            defaultValue={placeholder.default}
+            onSubmit={(value: string) => {
+              const placeholders = value === ''
+                ? state.placeholders
+                : { ...state.placeholders, [skill.id]: { ...state.placeholders[skill.id], [name]: value } };
+              if (remaining.length > 0) {
+                setState({ ...state, placeholders, questions: remaining });
+                return;
+              }
+              setState({ step: 'installing', selectedSkills: state.selectedSkills, targets: state.targets, placeholders });
             }}
           />
         </Box>
@@ -177,6 +579,90 @@ const App: React.FC<AppProps> = ({ options }) => {
           </Text>
           <Text> Downloading and installing {state.selectedSkills.length} skill(s)...</Text>
         </Box>
+        {state.selectedSkills.map(({ skill }) => (
+          <SkillStatus key={skill.id} name={skill.name} progress={progress[skill.id] ?? 'waiting'} />
+        ))}
+      </Box>
+    );
+  }
+
+  if (state.step === 'resolving') {
+    const change = state.conflicts[state.answers.size];
+    const plan = state.plans.find((p) => p.changes.includes(change))!;
+    const { added, removed } = summarizeDiff(String(change.local ?? ''), String(change.upstream));
+    const items: { label: string; value: ConflictResolution }[] = [
+      { label: 'Keep my version', value: 'keep' },
+      { label: 'Overwrite with the new version', value: 'overwrite' },
+      ...(canMerge(change)
+        ? [{ label: 'Merge the upstream changes into my version', value: 'merge' as const }]
+        : []),
+    ];
+
+    return (
+      <Box flexDirection="column">
+        <Text color="yellow">
+          ⚠ {displayPath(options.directory, change.path)} ({plan.skill.name}) was edited since it was installed
+        </Text>
+        <Text color="gray">
+          {'  '}The new version differs from yours by +{added} -{removed} line(s)
+          {canMerge(change) ? '' : '; it cannot be merged (no record of what was installed)'}
+        </Text>
+        <Text color="gray">
+          {state.answers.size + 1}/{state.conflicts.length} · ↑↓ to navigate, Enter to confirm
+        </Text>
+        <Box marginTop={1}>
+          <SingleSelect
+            key={change.path}
+            items={items}
+            onSubmit={(resolution: ConflictResolution) => {
+              const answers = new Map(state.answers).set(change, resolution);
+              if (answers.size < state.conflicts.length) {
+                setState({ ...state, answers });
+                return;
+              }
+              setState({
+                step: 'writing',
+                plans: resolveChanges(state.plans, (c) => answers.get(c) ?? 'keep'),
+                failures: state.failures,
+              });
+            }}
+          />
+        </Box>
+      </Box>
+    );
+  }
+
+  if (state.step === 'writing') {
+    return (
+      <Box>
+        <Text color="blue">
+          <Spinner type="dots" />
+        </Text>
+        <Text> Writing skills...</Text>
+      </Box>
+    );
+  }
+
+  if (state.step === 'planned') {
+    return (
+      <Box flexDirection="column">
+        <Text color="cyan" bold>Dry run: nothing was written</Text>
+        <StaleNotice since={staleSince} offline={options.offline} />
+        {state.plans.map((plan) => (
+          <Box key={`${plan.skill.id}:${plan.target.path}`} flexDirection="column" marginTop={1}>
+            <Text bold>
+              {plan.skill.name} → {displayPath(options.directory, plan.target.path)}
+            </Text>
+            {plan.changes.map((change) => (
+              <Text key={change.path} color={PLAN_COLORS[change.action]}>
+                {'  '}{change.action.padEnd(9)} {displayPath(options.directory, change.path)}
+                {(change.modified || change.action === 'skip') && ' (edited locally)'}
+                {change.conflicts ? ` (${change.conflicts} conflict(s))` : ''}
+              </Text>
+            ))}
+          </Box>
+        ))}
+        <FailureList failures={state.failures} />
       </Box>
     );
   }
@@ -187,6 +673,7 @@ const App: React.FC<AppProps> = ({ options }) => {
         <Text color="green">
           ✨ Done! {state.count} skill(s) installed successfully.
         </Text>
+        <StaleNotice since={staleSince} offline={options.offline} />
         {state.installedFiles.length > 0 && (
           <Box flexDirection="column" marginTop={1}>
             <Text color="gray">Installed files:</Text>
@@ -200,27 +687,49 @@ const App: React.FC<AppProps> = ({ options }) => {
             )}
           </Box>
         )}
-        <Box flexDirection="column" marginTop={1}>
-          <Text color="yellow" bold>📝 Next Step - Customize Your Skills</Text>
+        {state.conflicted.length > 0 && (
           <Box flexDirection="column" marginTop={1}>
-            <Text color="gray">Some skills contain placeholders that need to be replaced with your actual codebase paths.</Text>
-            <Text color="gray">Prompt your coding agent with this exact message:</Text>
+            <Text color="yellow">⚠ Merged with conflicts: resolve the {'<<<<<<<'} markers in</Text>
+            {state.conflicted.map((path) => (
+              <Text key={path} color="yellow">  {displayPath(options.directory, path)}</Text>
+            ))}
           </Box>
+        )}
+        <FailureList failures={state.failures} />
+        {state.failures.length > 0 && !options.all && lastInstall.current && (
+          <RetryPrompt
+            onRetry={() => {
+              const { selectedSkills, targets, placeholders } = lastInstall.current!;
+              const failed = selectedSkills.filter((match) =>
+                state.failures.some((failure) => failure.id === match.skill.id)
+              );
+              setState({ step: 'installing', selectedSkills: failed, targets, placeholders });
+            }}
+          />
+        )}
+        {state.unresolved.length > 0 && (
           <Box flexDirection="column" marginTop={1}>
-            <Text color="cyan">
-              Replace all placeholder comments marked with "TO-EDIT" in the installed
-            </Text>
-            <Text color="cyan">
-              skill files with the actual paths and imports from my codebase.
-            </Text>
-            <Text color="cyan">
-              Analyze my project structure to find the correct testing utilities,
-            </Text>
-            <Text color="cyan">
-              setup files, and configuration paths.
-            </Text>
+            <Text color="yellow" bold>📝 Next Step - Customize Your Skills</Text>
+            <Box flexDirection="column" marginTop={1}>
+              <Text color="gray">These files still contain parts that could not be filled from your project:</Text>
+              {state.unresolved.map((file) => (
+                <Text key={file.path} color="gray">
+                  {'  '}{displayPath(options.directory, file.path)} (
+                  {[...file.placeholders.map((name) => `{{${name}}}`), ...(file.toEdit ? ['TO-EDIT'] : [])].join(', ')})
+                </Text>
+              ))}
+              <Text color="gray">Prompt your coding agent with this exact message:</Text>
+            </Box>
+            <Box marginTop={1}>
+              <Text color="cyan">
+                Replace the {'{{...}}'} placeholders and "TO-EDIT" comments in{' '}
+                {state.unresolved.map((file) => displayPath(options.directory, file.path)).join(', ')}{' '}
+                with the actual paths and imports from my codebase. Analyze my project structure
+                to find the correct values.
+              </Text>
+            </Box>
           </Box>
-        </Box>
+        )}
       </Box>
     );
   }
@@ -236,16 +745,289 @@ const App: React.FC<AppProps> = ({ options }) => {
   return null;
 };
 
+// Lines of a skill shown in the selection preview
+const PREVIEW_LINES = 8;
+// Wait for the cursor to rest on a skill before downloading its preview (ms)
+const PREVIEW_DELAY = 200;
+
+const PLAN_COLORS: Record<FileAction, string> = {
+  create: 'green',
+  overwrite: 'yellow',
+  unchanged: 'gray',
+  skip: 'gray',
+  merge: 'cyan',
+};
+
+/**
+ * Skills that could not be installed, and why
+ */
+const FailureList: React.FC<{ failures: InstallFailure[] }> = ({ failures }) => {
+  if (failures.length === 0) {
+    return null;
+  }
+  return (
+    <Box flexDirection="column" marginTop={1}>
+      <Text color="red">✗ {failures.length} skill(s) could not be installed:</Text>
+      {failures.map((failure) => (
+        <Text key={failure.id} color="red">
+          {'  '}{failure.name}: {failure.message}
+        </Text>
+      ))}
+    </Box>
+  );
+};
+
+/**
+ * The skill under the cursor of the selection: where it comes from, why it matched
+ * and the start of its content, downloaded once the cursor rests on it
+ */
+const SkillDetails: React.FC<{
+  match: MatchedSkill;
+  downloader: SkillDownloader;
+  previews: Map<string, Promise<string[]>>;
+}> = ({ match, downloader, previews }) => {
+  const { skill } = match;
+  const [preview, setPreview] = useState<{ id: string; lines?: string[]; error?: string } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      if (!previews.has(skill.id)) {
+        previews.set(skill.id, loadPreview(downloader, skill));
+      }
+      previews.get(skill.id)!.then(
+        (lines) => !cancelled && setPreview({ id: skill.id, lines }),
+        (error) => !cancelled && setPreview({ id: skill.id, error: error instanceof Error ? error.message : String(error) })
+      );
+    }, PREVIEW_DELAY);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [skill.id]);
+
+  const source = downloader.getSourceUrl(skill);
+  const current = preview?.id === skill.id ? preview : null;
+
+  return (
+    <Box flexDirection="column">
+      <Text bold color="cyan">{skill.name}</Text>
+      <Text>{skill.description}</Text>
+      <Text color="magenta">Author: {skill.author}</Text>
+      {source && <Text color="gray">Source: {source}</Text>}
+      <Text color="gray">Matched: {describeMatch(match)} · Score: {match.score}</Text>
+      <Box flexDirection="column" marginTop={1}>
+        {!current && <Text color="gray">Loading preview…</Text>}
+        {current?.error && <Text color="red">Preview unavailable: {current.error}</Text>}
+        {current?.lines?.map((line, index) => (
+          <Text key={index} color="gray" wrap="truncate-end">{line || ' '}</Text>
+        ))}
+      </Box>
+    </Box>
+  );
+};
+
+/**
+ * Lines of a skill's main file shown in its preview, without the frontmatter
+ */
+async function loadPreview(downloader: SkillDownloader, skill: Skill): Promise<string[]> {
+  const content = await downloader.fetchMainFile(skill);
+  if (content === null) {
+    return ['No preview: the skill is downloaded as an archive when installed'];
+  }
+  let body: string;
+  try {
+    body = parseFrontmatter(content).body;
+  } catch {
+    body = stripFrontmatter(content);
+  }
+  const lines = body.trim().split(/\r?\n/);
+  return lines.length > PREVIEW_LINES ? [...lines.slice(0, PREVIEW_LINES), '…'] : lines;
+}
+
+const PROGRESS_ICONS: Record<Exclude<SkillProgress, 'downloading'>, { icon: string; color: string }> = {
+  waiting: { icon: '·', color: 'gray' },
+  ready: { icon: '✓', color: 'green' },
+  failed: { icon: '✗', color: 'red' },
+};
+
+/**
+ * One skill of the installing step: a spinner while it downloads, then whether it succeeded
+ */
+const SkillStatus: React.FC<{ name: string; progress: SkillProgress }> = ({ name, progress }) => (
+  <Text color={progress === 'downloading' ? undefined : PROGRESS_ICONS[progress].color}>
+    {'  '}
+    {progress === 'downloading' ? <Text color="blue"><Spinner type="dots" /></Text> : PROGRESS_ICONS[progress].icon}
+    {' '}{name}
+  </Text>
+);
+
+/**
+ * Offer to install the skills that failed again; any other key exits
+ */
+const RetryPrompt: React.FC<{ onRetry: () => void }> = ({ onRetry }) => {
+  const { exit } = useApp();
+  useInput((input) => {
+    if (input === 'r') {
+      onRetry();
+    } else {
+      exit();
+    }
+  });
+  return (
+    <Box marginTop={1}>
+      <Text color="cyan">Press r to retry the failed skills, any other key to exit</Text>
+    </Box>
+  );
+};
+
+/**
+ * Warn that cached registry content is shown instead of fresh content
+ */
+const StaleNotice: React.FC<{ since: Date | null; offline?: boolean }> = ({ since, offline }) => {
+  if (!since) {
+    return null;
+  }
+  return (
+    <Box marginBottom={1}>
+      <Text color="yellow">
+        ⚠ {offline ? 'Offline: using' : 'Registry unreachable: using'} cached content from {formatAge(since)} ago.
+      </Text>
+    </Box>
+  );
+};
+
+/**
+ * A target as offered in the target steps
+ */
+function toTargetItem(target: Target, directory: string): { label: string; value: Target; group: string; note?: string } {
+  return {
+    label: `${target.type} (${displayPath(directory, target.path)})`,
+    value: target,
+    group: target.global ? 'All your projects' : 'This project',
+    note: target.detected ? undefined : 'not detected',
+  };
+}
+
+/**
+ * A path as shown to the user: relative to the project, or from ~ for global targets
+ */
+function displayPath(directory: string, path: string): string {
+  const fromProject = relative(directory, path);
+  if (!fromProject.startsWith('..')) {
+    return fromProject || '.';
+  }
+  const fromHome = relative(homedir(), path);
+  return fromHome.startsWith('..') ? path : join('~', fromHome);
+}
+
+/**
+ * Report the oldest stale response served by a downloader or registry loader
+ */
+function reportStaleness(
+  downloader: Pick<SkillDownloader, 'getStaleResponses'>,
+  setStaleSince: React.Dispatch<React.SetStateAction<Date | null>>
+): void {
+  const dates = downloader.getStaleResponses().map((metadata) => new Date(metadata.fetchedAt));
+  if (dates.length === 0) {
+    return;
+  }
+  const oldest = new Date(Math.min(...dates.map((date) => date.getTime())));
+  setStaleSince((previous) => (previous && previous < oldest ? previous : oldest));
+}
+
+/**
+ * Group matched skills by their triggering dependency, most relevant group first.
+ * In a monorepo, the same dependency is grouped per workspace, and a skill is listed under
+ * each workspace it matched in.
+ */
+function groupByDependency(
+  skills: MatchedSkill[],
+  workspaces: Workspace[]
+): [string, MatchedSkill[]][] {
+  const groups = new Map<string, MatchedSkill[]>();
+  const labels = new Map<string, string>();
+  for (const match of skills) {
+    for (const trigger of getTriggers(match)) {
+      const { name, version, workspace = '' } = trigger;
+      const key = `${workspace}:${name}`;
+      groups.set(key, [...(groups.get(key) ?? []), match]);
+      if (labels.has(key)) continue;
+
+      let label = trigger === CONFIG_DEPENDENCY ? 'Included by configuration'
+        : version === 'file' ? `${name} (file)`
+        : version === '*' ? name
+        : `${name}@${version}`;
+      if (workspaces.length > 0) {
+        label += ` · ${workspace === '' ? 'repository root' : workspaces.find((w) => w.path === workspace)?.name ?? workspace}`;
+      }
+      labels.set(key, label);
+    }
+  }
+
+  return [...groups.entries()].map(([key, matches]) => [labels.get(key)!, matches]);
+}
+
+/**
+ * The triggering dependency of a match in each workspace where its conditions matched it
+ */
+function getTriggers(match: MatchedSkill): Dependency[] {
+  const triggers = [match.dependency];
+  for (const { name, version, workspace } of match.explanation.libraries) {
+    if (name === match.dependency.name && !triggers.some((trigger) => trigger.workspace === workspace)) {
+      triggers.push({ name, version, workspace, isDev: match.dependency.isDev });
+    }
+  }
+  return triggers;
+}
+
+/**
+ * Group matched skills by the workspace of their triggering dependency,
+ * with the repository root first
+ */
+function groupByWorkspace(
+  skills: MatchedSkill[],
+  workspaces: Workspace[]
+): [string, MatchedSkill[]][] {
+  const groups = new Map<string, MatchedSkill[]>();
+  for (const match of skills) {
+    for (const key of new Set(getTriggers(match).map((trigger) => trigger.workspace ?? ''))) {
+      groups.set(key, [...(groups.get(key) ?? []), match]);
+    }
+  }
+
+  return [...groups.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([path, matches]) => {
+      const workspace = workspaces.find((w) => w.path === path);
+      const label = path === '' ? 'Repository root' : `${workspace?.name ?? path} (${path})`;
+      return [label, matches];
+    });
+}
+
+/**
+ * Build the configuration from the project configuration file and CLI options.
+ * Flags take precedence over the file.
+ */
+async function createConfig(options: CliOptions): Promise<Config> {
+  const project = await loadProjectConfig(options.directory);
+  return resolveConfig(project?.config, {
+    registries: options.registry,
+    defaultRegistry: options.defaultRegistry,
+    cursorMode: options.cursorRules ? 'rules' : undefined,
+    cacheMode: options.offline ? 'offline' : options.refresh ? 'refresh' : undefined,
+    allowUnpinned: options.allowUnpinned,
+    ...parseTargetOptions(options.target),
+  });
+}
+
 async function runSetup(
   options: CliOptions,
-  setState: React.Dispatch<React.SetStateAction<AppState>>
+  config: Config,
+  setState: React.Dispatch<React.SetStateAction<AppState>>,
+  setStaleSince: React.Dispatch<React.SetStateAction<Date | null>>
 ): Promise<void> {
   try {
-    const config: Config = {
-      ...DEFAULT_CONFIG,
-      registryUrl: options.registry,
-    };
-
     // Set up parser registry
     const parserRegistry = new ParserRegistry();
     parserRegistry.register(new NpmParser());
@@ -262,22 +1044,28 @@ async function runSetup(
 
     // Fetch skills index
     setState({ step: 'fetching' });
-    const downloader = new SkillDownloader(config);
+    const loader = new RegistryLoader(config);
 
     let index;
     try {
-      index = await downloader.fetchIndex();
+      index = await loader.fetchIndex();
     } catch (error) {
+      // Say which registry failed and why (not found, authentication, network)
+      const detail = error instanceof Error ? `\n${error.message}` : '';
       setState({
         step: 'error',
-        message: 'Could not fetch skills registry. Make sure the registry URL is correct and accessible.',
+        message: (options.offline
+          ? 'The skills registry is not cached yet. Run once without --offline to cache it.'
+          : 'Could not fetch skills registry. Make sure the registry URL is correct and accessible.') + detail,
       });
       return;
     }
+    reportStaleness(loader, setStaleSince);
 
     // Match skills
-    const matcher = new SkillMatcher();
-    const matchedSkills = matcher.matchSkills(parseResult.dependencies, index);
+    const matcher = new SkillMatcher(config);
+    const files = await ProjectFiles.scan(options.directory, parseResult.workspaces);
+    const matchedSkills = matcher.matchSkills(parseResult.dependencies, index, files);
 
     if (matchedSkills.length === 0) {
       setState({ step: 'no-skills' });
@@ -286,22 +1074,55 @@ async function runSetup(
 
     // List mode - just show skills and exit
     if (options.list) {
-      setState({ step: 'list-only', skills: matchedSkills });
+      setState({ step: 'list-only', skills: matchedSkills, workspaces: parseResult.workspaces });
       return;
     }
 
-    // Detect targets (always returns both .cursor and .claude)
-    const installer = new SkillInstaller();
-    const targets = await installer.detectTargets(options.directory);
+    // Install into a specific workspace package when requested
+    let installDirectory = options.directory;
+    if (options.workspace) {
+      const workspace = parseResult.workspaces.find(
+        (w) => w.name === options.workspace || w.path === options.workspace
+      );
+      if (!workspace) {
+        setState({ step: 'error', message: `Workspace "${options.workspace}" not found.` });
+        return;
+      }
+      installDirectory = join(options.directory, workspace.path);
+    }
 
-    // Install all mode - install to both targets
+    // Fill placeholders from previous installations and from the project
+    const manifest = await SkillManifest.load(options.directory);
+    const placeholders = await new PlaceholderResolver(options.directory, files)
+      .resolveAll(matchedSkills.map((match) => match.skill), manifest);
+
+    // Install all mode - install to the detected targets (the agents found and .claude, unless
+    // configured otherwise), using placeholder defaults and leaving the other unresolved ones as they are
     if (options.all) {
-      setState({ step: 'installing', selectedSkills: matchedSkills, targets });
+      const selectedSkills = getDefaultSelection(matchedSkills);
+      const installer = new SkillInstaller(undefined, createTargetRegistry(config));
+      const targets = await getTargetAssignment(selectedSkills, installDirectory, config, installer, options.global);
+      if (Object.values(targets).every((skillTargets) => skillTargets.length === 0)) {
+        setState({ step: 'no-targets', skills: matchedSkills });
+        return;
+      }
+      setState({
+        step: 'installing',
+        selectedSkills,
+        targets,
+        placeholders: applyDefaults(selectedSkills.map((match) => match.skill), placeholders),
+      });
       return;
     }
 
     // Interactive selection
-    setState({ step: 'selecting', skills: matchedSkills, targets });
+    setState({
+      step: 'selecting',
+      skills: matchedSkills,
+      directory: installDirectory,
+      workspaces: parseResult.workspaces,
+      placeholders,
+    });
   } catch (error) {
     setState({
       step: 'error',
@@ -312,43 +1133,91 @@ async function runSetup(
 
 async function performInstallation(
   selectedSkills: MatchedSkill[],
-  targets: Target[],
+  targets: TargetAssignment,
+  placeholders: PlaceholderValues,
   options: CliOptions,
-  setState: React.Dispatch<React.SetStateAction<AppState>>
+  config: Config,
+  setState: React.Dispatch<React.SetStateAction<AppState>>,
+  setStaleSince: React.Dispatch<React.SetStateAction<Date | null>>,
+  onProgress: (id: string, progress: SkillProgress) => void
 ): Promise<void> {
   try {
-    const config: Config = {
-      ...DEFAULT_CONFIG,
-      registryUrl: options.registry,
-    };
-
     const downloader = new SkillDownloader(config);
-    const installer = new SkillInstaller();
-
-    let successCount = 0;
-    const installedFiles: string[] = [];
-
-    for (const match of selectedSkills) {
-      try {
-        if (match.skill.skillsShUrl) {
-          // Delegate to the skills CLI — it handles agent directories automatically
-          await installer.installViaSkillsCli(match.skill, options.directory);
-        } else {
-          // Direct download and install to each target
-          const files = await downloader.fetchSkillContent(match.skill);
-          for (const target of targets) {
-            const paths = await installer.installSkill(match.skill, files, target);
-            installedFiles.push(...paths);
-          }
-        }
-        successCount++;
-      } catch (error) {
-        // Continue with other skills even if one fails
-        console.error(`Failed to install ${match.skill.name}: ${error}`);
-      }
+    const manifest = await SkillManifest.load(options.directory);
+    const installer = new SkillInstaller(
+      manifest, createTargetRegistry(config), config.cacheDirectory,
+      await SkillManifest.load(homedir())
+    );
+    const { plans, failures } = await planSelection(
+      selectedSkills, targets, placeholders, config, downloader, installer, onProgress
+    );
+    reportStaleness(downloader, setStaleSince);
+
+    // Ask about locally edited files, unless told what to do or installing everything unattended
+    const conflicts = plans.flatMap((plan) => plan.changes.filter((change) => change.modified));
+    if (conflicts.length > 0 && !options.onConflict && !options.all && !options.dryRun) {
+      setState({ step: 'resolving', plans, failures, conflicts, answers: new Map() });
+      return;
     }
 
-    setState({ step: 'done', count: successCount, installedFiles });
+    const resolved = resolveChanges(plans, () => options.onConflict ?? 'keep');
+    setState(options.dryRun
+      ? { step: 'planned', plans: resolved, failures }
+      : { step: 'writing', plans: resolved, failures });
+  } catch (error) {
+    setState({
+      step: 'error',
+      message: error instanceof Error ? error.message : 'Installation failed',
+    });
+  }
+}
+
+/**
+ * Remember the skills left unselected, so `check` does not require them
+ */
+async function recordSelection(directory: string, selection: SkillSelection): Promise<void> {
+  const manifest = await SkillManifest.load(directory);
+  manifest.recordSelection(selection.offered, selection.selected);
+  await manifest.save();
+}
+
+async function writePlans(
+  plans: SkillPlan[],
+  failures: InstallFailure[],
+  options: CliOptions,
+  config: Config,
+  setState: React.Dispatch<React.SetStateAction<AppState>>,
+  selection?: SkillSelection
+): Promise<void> {
+  try {
+    const manifest = await SkillManifest.load(options.directory);
+    const installer = new SkillInstaller(
+      manifest, createTargetRegistry(config), config.cacheDirectory,
+      await SkillManifest.load(homedir())
+    );
+    const result = await applyPlans(plans, installer);
+    if (selection) {
+      await recordSelection(options.directory, selection);
+    }
+    // Global installs keep their placeholders on purpose: no project values to fill them with
+    const unresolved = plans
+      .filter((plan) => !plan.target.global && result.installed.some((skill) => skill.id === plan.skill.id))
+      .flatMap((plan) => plan.changes
+        .filter((change) => change.action !== 'skip')
+        .map((change) => ({
+          path: change.path,
+          placeholders: findPlaceholders(plan.skill, change.content),
+          toEdit: hasEditMarkers(change.content),
+        })))
+      .filter((file) => file.placeholders.length > 0 || file.toEdit);
+    setState({
+      step: 'done',
+      count: result.installed.length,
+      installedFiles: result.installed.flatMap((skill) => skill.files),
+      failures: [...failures, ...result.failures],
+      conflicted: result.conflicted,
+      unresolved,
+    });
   } catch (error) {
     setState({
       step: 'error',
@@ -357,16 +1226,105 @@ async function performInstallation(
   }
 }
 
+/**
+ * Accumulate repeated options as given
+ */
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+/**
+ * Accumulate repeated --registry options, in priority order
+ */
+function collectRegistry(value: string, previous: RegistryConfig[]): RegistryConfig[] {
+  return [...previous, parseRegistryOption(value)];
+}
+
 program
   .name('help-me-ai')
   .description('Discover and install AI coding assistant skills based on your project dependencies')
   .version('1.0.0')
+  .enablePositionalOptions()
   .option('-d, --directory <path>', 'Project directory to analyze', process.cwd())
-  .option('-r, --registry <url>', 'Custom skills registry URL', DEFAULT_CONFIG.registryUrl)
+  .option('-r, --registry <url>', 'Additional skills registry (URL or directory, optionally name=url); repeat to layer, first wins', collectRegistry, [])
+  .option('--no-default-registry', 'Only use the registries given with --registry')
   .option('--all', 'Install all matching skills without prompting')
   .option('--list', 'List matching skills without installing')
-  .action((options: CliOptions) => {
-    render(<App options={options} />);
+  .option('--cursor-rules', 'Install for Cursor as native .cursor/rules/*.mdc rules instead of skill folders')
+  .option('--offline', 'Only use cached registry data, never the network')
+  .option('--refresh', 'Bypass the cache and fetch everything again')
+  .option('--allow-unpinned', 'Install remote skills that have no integrity hash (default)')
+  .option('--no-allow-unpinned', 'Refuse remote skills that have no integrity hash')
+  .option('-w, --workspace <name>', 'Install into a workspace package (name or path) instead of the repository root')
+  .option('--json', 'Print a JSON report instead of the interactive UI (with --list or --all)')
+  .option('--dry-run', 'Show what would be created, overwritten, kept or merged without writing anything')
+  .option('--on-conflict <resolution>', 'For files edited since they were installed: keep, overwrite or merge (default: ask, or keep with --all)')
+  .option('-t, --target <target>', 'Install for this agent (claude, cursor, …) instead of the detected ones, or skill=agent for one skill; repeatable', collect, [])
+  .option('-g, --global [skills]', 'Install to ~/.claude/skills and ~/.cursor/skills (when found) instead of the project: every skill, or these comma-separated skill ids', (value: string) => value.split(',').map((id) => id.trim()))
+  .action(async (options: CliOptions) => {
+    if (options.offline && options.refresh) {
+      program.error('--offline and --refresh cannot be used together');
+    }
+    if (options.onConflict && !['keep', 'overwrite', 'merge'].includes(options.onConflict)) {
+      program.error(`Unknown --on-conflict "${options.onConflict}". Use keep, overwrite or merge.`);
+    }
+    if (options.json) {
+      process.exitCode = await runJson(options, () => createConfig(options));
+      return;
+    }
+    const config = await createConfig(options).catch((error: Error) => program.error(error.message));
+    render(<App options={options} config={config} />);
+  });
+
+program
+  .command('update')
+  .description('Refresh installed skills from their upstream source')
+  .option('-d, --directory <path>', 'Project directory', process.cwd())
+  .option('-y, --yes', 'Apply all changes without prompting')
+  .option('-g, --global', 'Refresh the skills installed globally (in ~) instead')
+  .action((options: UpdateOptions & { global?: boolean }) => {
+    render(<UpdateApp options={{ ...options, directory: options.global ? homedir() : options.directory }} />);
+  });
+
+program
+  .command('prune')
+  .description('Remove installed skills whose triggering dependency is gone')
+  .option('-d, --directory <path>', 'Project directory', process.cwd())
+  .option('-y, --yes', 'Remove without prompting')
+  .action((options: PruneOptions) => {
+    render(<PruneApp options={options} />);
+  });
+
+program
+  .command('check')
+  .description('Fail when recommended skills are missing, outdated or no longer matching (for CI)')
+  .option('-d, --directory <path>', 'Project directory to analyze', process.cwd())
+  .option('-r, --registry <url>', 'Additional skills registry (URL or directory, optionally name=url); repeat to layer, first wins', collectRegistry, [])
+  .option('--no-default-registry', 'Only use the registries given with --registry')
+  .option('--format <format>', 'Output format: text, json or junit', 'text')
+  .option('--json', 'Same as --format json')
+  .action(async (options: CheckOptions & { json?: boolean }) => {
+    process.exitCode = await runCheck({ ...options, format: options.json ? 'json' : options.format });
+  });
+
+program
+  .command('pin')
+  .description('Write the sha256 integrity of every remote skill source into a registry index.json')
+  .argument('[index]', 'Path of the index.json', 'index.json')
+  .option('--registry-url <url>', 'URL relative skill paths resolve against (default: the index directory)')
+  .option('--missing', 'Only pin skills that have no integrity yet')
+  .action(async (index: string, options: Omit<PinOptions, 'index'>) => {
+    process.exitCode = await runPin({ ...options, index });
+  });
+
+program
+  .command('validate-registry')
+  .description('Check a registry index.json and its skills, for registry maintainers and CI')
+  .argument('[location]', 'Registry directory or URL, or its index.json', '.')
+  .option('--format <format>', 'Output format: text or json', 'text')
+  .option('--strict', 'Fail on warnings too')
+  .action(async (location: string, options: Omit<ValidateRegistryOptions, 'location'>) => {
+    process.exitCode = await runValidateRegistry({ ...options, location });
   });
 
-program.parse();
+program.parseAsync();
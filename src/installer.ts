@@ -1,111 +1,548 @@
-import { mkdir, writeFile, access } from 'node:fs/promises';
-import { join } from 'node:path';
-import { exec } from 'node:child_process';
-import { promisify } from 'node:util';
-import type { Skill, Target, TargetType } from './types.js';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { join, dirname } from 'node:path';
+import { ContentStore, hashContent } from './cache.js';
+import { mergeThreeWay } from './diff.js';
+import { hashSkillFiles, type SkillManifest } from './manifest.js';
+import { createTargetRegistry } from './targets/index.js';
+import type { TargetAdapter, TargetRegistry } from './targets/base.js';
+import { normalizeSkillPath } from './paths.js';
+import { fillPlaceholders } from './placeholders.js';
+import type { SkillDownloader } from './downloader.js';
+import type { Config, Dependency, MatchedSkill, Skill, SkillFiles, Target, TargetType } from './types.js';
 
-const execAsync = promisify(exec);
+/**
+ * What triggered an installation, recorded in the manifest
+ */
+export interface InstallOrigin {
+  dependency: Dependency;
+  registryUrl: string;
+  /** Values filled into the skill's placeholders */
+  placeholders?: Record<string, string>;
+}
+
+/**
+ * What installing a skill does to one file
+ */
+export type FileAction = 'create' | 'overwrite' | 'unchanged' | 'skip' | 'merge';
+
+/**
+ * How to handle a file edited since help-me-ai last wrote it
+ */
+export type ConflictResolution = 'keep' | 'overwrite' | 'merge';
+
+/**
+ * A planned write of one file
+ */
+export interface FileChange {
+  /** Absolute path */
+  path: string;
+  action: FileAction;
+  /** The file differs from what help-me-ai last wrote, or was not written by it */
+  modified: boolean;
+  /** Content to write: the upstream content, or the result of a merge */
+  content: string | Buffer;
+  /** Upstream content, stored as the base of later merges */
+  upstream: string | Buffer;
+  /** Content on disk, for modified files */
+  local?: Buffer;
+  /** What help-me-ai last wrote, when it is still stored (modified text files can then be merged) */
+  base?: Buffer;
+  /** Conflicting regions left by a merge */
+  conflicts?: number;
+}
+
+/**
+ * The planned installation of a skill to one target
+ */
+export interface SkillPlan {
+  skill: Skill;
+  /** Content as downloaded, hashed into the manifest */
+  files: SkillFiles;
+  target: Target;
+  origin?: InstallOrigin;
+  changes: FileChange[];
+}
+
+/**
+ * Skills downloaded at the same time
+ */
+export const DOWNLOAD_CONCURRENCY = 4;
+
+/**
+ * Where a skill is in `planSelection`: waiting for a download slot, downloading,
+ * planned, or failed
+ */
+export type SkillProgress = 'waiting' | 'downloading' | 'ready' | 'failed';
+
+/**
+ * Targets of each selected skill, keyed by skill id
+ */
+export type TargetAssignment = Record<string, Target[]>;
+
+/**
+ * A skill that could not be installed
+ */
+export interface InstallFailure {
+  id: string;
+  name: string;
+  /** `fetch-failed`: download or integrity check; `install-failed`: writing to a target */
+  code: 'fetch-failed' | 'install-failed';
+  message: string;
+}
+
+/**
+ * Outcome of installing a selection of skills
+ */
+export interface InstallResult {
+  /** Files written, per installed skill */
+  installed: { id: string; files: string[] }[];
+  failures: InstallFailure[];
+  /** Files merged with conflict markers left to resolve */
+  conflicted: string[];
+}
+
+/**
+ * Install every skill of a selection to the given targets,
+ * except that skills listed in `skillTargets` only go to the agents listed for them
+ */
+export function assignTargets(
+  selection: MatchedSkill[],
+  targets: Target[],
+  skillTargets: Record<string, TargetType[]> = {}
+): TargetAssignment {
+  const assignment: TargetAssignment = {};
+  for (const { skill } of selection) {
+    const types = skillTargets[skill.id];
+    assignment[skill.id] = targets.filter((target) => !types || types.includes(target.type));
+  }
+  return assignment;
+}
+
+/**
+ * Decide where skills go without asking. Skills go to the project's targets (see `detectTargets`),
+ * or to the global targets with `global`: for every skill, or for the listed skill ids, which must be selected.
+ * Skills listed in `config.skillTargets` go to exactly the agents listed for them.
+ */
+export async function getTargetAssignment(
+  selection: MatchedSkill[],
+  directory: string,
+  config: Pick<Config, 'targets' | 'skillTargets'>,
+  installer: SkillInstaller,
+  global: boolean | string[] = false
+): Promise<TargetAssignment> {
+  if (Array.isArray(global)) {
+    const unknown = global.filter((id) => !selection.some((match) => match.skill.id === id));
+    if (unknown.length > 0) {
+      throw new Error(`--global lists skills that are not selected: ${unknown.join(', ')}`);
+    }
+  }
+
+  const projectTargets = await installer.detectTargets(directory, config.targets);
+  const globalTargets = global ? await installer.detectGlobalTargets(config.targets) : [];
+
+  const assignment: TargetAssignment = {};
+  for (const { skill } of selection) {
+    const isGlobal = global === true || (Array.isArray(global) && global.includes(skill.id));
+    const types = config.skillTargets?.[skill.id];
+    assignment[skill.id] = types
+      ? await Promise.all(types.map((type) => installer.getTarget(type, directory, isGlobal)))
+      : isGlobal ? globalTargets : projectTargets;
+  }
+  return assignment;
+}
+
+/**
+ * Download the selected skills and plan their installation to their targets, without writing.
+ * Skills are downloaded `DOWNLOAD_CONCURRENCY` at a time; plans and failures keep the selection order.
+ * Modified files are kept until `resolveChanges` decides otherwise.
+ */
+export async function planSelection(
+  selection: MatchedSkill[],
+  targets: TargetAssignment,
+  placeholders: Record<string, Record<string, string>>,
+  config: Config,
+  downloader: SkillDownloader,
+  installer: SkillInstaller,
+  onProgress: (id: string, progress: SkillProgress) => void = () => {}
+): Promise<{ plans: SkillPlan[]; failures: InstallFailure[] }> {
+  selection.forEach((match) => onProgress(match.skill.id, 'waiting'));
+
+  const results = await mapConcurrent(selection, DOWNLOAD_CONCURRENCY, async (match) => {
+    const { id, name } = match.skill;
+    const plans: SkillPlan[] = [];
+    const fail = (code: InstallFailure['code'], error: unknown) => {
+      onProgress(id, 'failed');
+      const message = error instanceof Error ? error.message : String(error);
+      return { plans, failure: { id, name, code, message } };
+    };
+
+    // Download (direct path or skills.sh), then plan each target
+    onProgress(id, 'downloading');
+    let files: SkillFiles;
+    try {
+      files = await downloader.fetchSkillContent(match.skill);
+    } catch (error) {
+      return fail('fetch-failed', error);
+    }
+
+    const origin = {
+      dependency: match.dependency,
+      registryUrl: match.skill.registry ?? config.registryUrl,
+    };
+    try {
+      for (const target of targets[id] ?? []) {
+        // Values found in this project mean nothing to the others: global installs keep the placeholders
+        const values = target.global ? undefined : placeholders[id];
+        plans.push(await installer.planSkill(match.skill, files, target, { ...origin, placeholders: values }));
+      }
+    } catch (error) {
+      return fail('install-failed', error);
+    }
+    onProgress(id, 'ready');
+    return { plans, failure: undefined };
+  });
+
+  return {
+    plans: results.flatMap((result) => result.plans),
+    failures: results.flatMap((result) => (result.failure ? [result.failure] : [])),
+  };
+}
+
+/**
+ * Decide what to do with every modified file of the plans
+ */
+export function resolveChanges(
+  plans: SkillPlan[],
+  resolve: (change: FileChange) => ConflictResolution
+): SkillPlan[] {
+  return plans.map((plan) => ({
+    ...plan,
+    changes: plan.changes.map((change) => (change.modified ? resolveChange(change, resolve(change)) : change)),
+  }));
+}
+
+/**
+ * Whether a modified file can be merged: it is text and what help-me-ai last wrote is still stored
+ */
+export function canMerge(change: FileChange): boolean {
+  return change.base !== undefined && typeof change.upstream === 'string';
+}
+
+function resolveChange(change: FileChange, resolution: ConflictResolution): FileChange {
+  if (resolution === 'overwrite') {
+    return { ...change, action: 'overwrite', content: change.upstream };
+  }
+  if (resolution === 'merge' && canMerge(change)) {
+    const merged = mergeThreeWay(String(change.base), String(change.local ?? ''), String(change.upstream));
+    return { ...change, action: 'merge', content: merged.content, conflicts: merged.conflicts };
+  }
+  // Keep the local edits (also when a merge is impossible)
+  return { ...change, action: 'skip', content: change.local ?? change.upstream };
+}
+
+/**
+ * Write planned installations. A skill that fails does not stop the others.
+ */
+export async function applyPlans(plans: SkillPlan[], installer: SkillInstaller): Promise<InstallResult> {
+  const result: InstallResult = { installed: [], failures: [], conflicted: [] };
+
+  for (const plan of plans) {
+    const { id, name } = plan.skill;
+    if (result.failures.some((failure) => failure.id === id)) {
+      continue;
+    }
+    try {
+      const written = await installer.applyPlan(plan);
+      const installed = result.installed.find((skill) => skill.id === id);
+      if (installed) {
+        installed.files.push(...written);
+      } else {
+        result.installed.push({ id, files: written });
+      }
+      result.conflicted.push(...plan.changes.filter((change) => change.conflicts).map((change) => change.path));
+    } catch (error) {
+      result.installed = result.installed.filter((skill) => skill.id !== id);
+      result.failures.push({
+        id,
+        name,
+        code: 'install-failed',
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return result;
+}
 
 /**
  * Install skills to the appropriate directory
  */
 export class SkillInstaller {
   /**
-   * Detect available targets in a directory
-   * Always returns both .cursor and .claude targets
+   * @param manifest When given, every installation is recorded in it
+   * @param targetRegistry Adapters for the supported coding agents
+   * @param cacheDirectory Where earlier versions kept what was written, to merge local edits with
+   *   later upstream changes (it is now stored next to each manifest)
+   * @param globalManifest Records installations to global targets (in the home directory)
+   */
+  constructor(
+    private manifest?: SkillManifest,
+    private targetRegistry: TargetRegistry = createTargetRegistry(),
+    private cacheDirectory?: string,
+    private globalManifest?: SkillManifest
+  ) {}
+
+  /**
+   * Detect available targets in a directory.
+   * Includes every agent found in the project, plus the ones always installed (.claude),
+   * or exactly the `enabled` agents when given
    */
-  async detectTargets(directory: string): Promise<Target[]> {
+  async detectTargets(directory: string, enabled?: TargetType[]): Promise<Target[]> {
     const targets: Target[] = [];
+    enabled?.forEach((type) => this.getAdapter(type));
 
-    // Only include .cursor target if the .cursor directory exists (i.e. Cursor is being used)
-    const cursorPath = join(directory, '.cursor');
-    const cursorDetected = await this.directoryExists(cursorPath);
-    if (cursorDetected) {
-      targets.push({
-        type: 'cursor',
-        path: join(cursorPath, 'skills'),
-        detected: true,
-      });
+    for (const adapter of this.targetRegistry.getAdapters()) {
+      const detected = await adapter.detect(directory);
+      if (enabled ? enabled.includes(adapter.type) : detected || adapter.alwaysInstall) {
+        targets.push({
+          type: adapter.type,
+          path: join(directory, adapter.directory),
+          detected,
+        });
+      }
     }
 
-    // Always include .claude target (project-specific skills)
-    const claudePath = join(directory, '.claude', 'skills');
-    const claudeDetected = await this.directoryExists(join(directory, '.claude'));
-    targets.push({
-      type: 'claude',
-      path: claudePath,
-      detected: claudeDetected,
-    });
-
     return targets;
   }
 
   /**
-   * Install a skills.sh skill using the `skills` CLI.
-   * Runs: npx skills add <github-url> -s <skill-name> --agent '*' -y
+   * The target of an agent in a project directory, or its user-wide target in the home directory
+   */
+  async getTarget(type: TargetType, directory: string, global = false, home = homedir()): Promise<Target> {
+    const adapter = this.getAdapter(type);
+    if (!global) {
+      return { type, path: join(directory, adapter.directory), detected: await adapter.detect(directory) };
+    }
+    if (!adapter.globalDirectory) {
+      throw new Error(`Target "${type}" cannot be installed globally`);
+    }
+    return { type, path: join(home, adapter.globalDirectory), detected: await adapter.detect(home), global: true };
+  }
+
+  /**
+   * User-wide targets in the home directory, for the agents that have one:
+   * the agents found in the home directory, or exactly the `enabled` ones when given
    */
-  async installViaSkillsCli(skill: Skill, directory: string): Promise<void> {
-    const match = skill.skillsShUrl!.match(/^https:\/\/skills\.sh\/([^/]+)\/([^/]+)\/([^/]+)$/);
-    if (!match) throw new Error(`Invalid skills.sh URL: ${skill.skillsShUrl}`);
+  async detectGlobalTargets(enabled?: TargetType[], home = homedir()): Promise<Target[]> {
+    const targets: Target[] = [];
 
-    const [, org, repo, skillName] = match;
-    const githubUrl = `https://github.com/${org}/${repo}`;
+    for (const adapter of this.targetRegistry.getAdapters()) {
+      if (!adapter.globalDirectory) continue;
+      const target = await this.getTarget(adapter.type, home, true, home);
+      if (enabled ? enabled.includes(adapter.type) : target.detected) {
+        targets.push(target);
+      }
+    }
 
-    await execAsync(
-      `npx --yes skills add ${githubUrl} -s ${skillName} --agent '*' -y`,
-      { cwd: directory }
-    );
+    return targets;
   }
 
   /**
-   * Install a skill to the target directory
+   * Install a skill to the target directory.
+   * Files edited since help-me-ai last wrote them are handled by `resolution`.
    */
   async installSkill(
     skill: Skill,
-    files: Map<string, string>,
-    target: Target
+    files: SkillFiles,
+    target: Target,
+    origin?: InstallOrigin,
+    resolution: ConflictResolution = 'keep'
   ): Promise<string[]> {
+    const [plan] = resolveChanges([await this.planSkill(skill, files, target, origin)], () => resolution);
+    return this.applyPlan(plan);
+  }
+
+  /**
+   * Compare what installing a skill would write with what is on disk.
+   * A file is modified when it differs from the content help-me-ai last wrote there
+   * (or was not written by it); it is kept until the plan is resolved.
+   */
+  async planSkill(skill: Skill, files: SkillFiles, target: Target, origin?: InstallOrigin): Promise<SkillPlan> {
+    const adapter = this.getAdapter(target.type);
+    const changes: FileChange[] = [];
+
+    // Lay the skill out the way the agent expects, e.g. .claude/skills/{skill-id}/SKILL.md.
+    // Paths come from the registry, so never let them escape the target directory
+    const filled = fillPlaceholders(skill, files, origin?.placeholders ?? {});
+    for (const [relativePath, content] of adapter.getFiles(skill, filled)) {
+      const path = join(target.path, normalizeSkillPath(relativePath));
+      const local = await readExisting(path);
+      if (!local) {
+        changes.push({ path, action: 'create', modified: false, content, upstream: content });
+      } else if (local.equals(Buffer.from(content))) {
+        changes.push({ path, action: 'unchanged', modified: false, content, upstream: content });
+      } else {
+        const written = this.getWrittenHash(skill, target, path);
+        if (written === hashContent(local)) {
+          changes.push({ path, action: 'overwrite', modified: false, content, upstream: content });
+        } else if (written === hashContent(content)) {
+          // Edited locally, and nothing new upstream: nothing to decide
+          changes.push({ path, action: 'skip', modified: false, content: local, upstream: content });
+        } else {
+          const base = written ? await this.getStore(target)?.get(written) : null;
+          changes.push({
+            path,
+            action: 'skip',
+            modified: true,
+            content: local,
+            upstream: content,
+            local,
+            base: base ?? undefined,
+          });
+        }
+      }
+    }
+
+    return { skill, files, target, origin, changes };
+  }
+
+  /**
+   * Write a plan and record it in the manifest
+   */
+  async applyPlan(plan: SkillPlan): Promise<string[]> {
+    const { skill, files, target, origin } = plan;
+    const adapter = this.getAdapter(target.type);
+    const manifest = this.getManifest(target);
+    const store = this.getStore(target);
     const installedFiles: string[] = [];
+    const writtenHashes: Record<string, string> = {};
 
-    // Create skill directory: .cursor/skills/{skill-id}/
-    const skillDirectory = join(target.path, skill.id);
-    await this.ensureDirectory(skillDirectory);
+    for (const change of plan.changes) {
+      const relativePath = manifest?.toRelativePath(change.path) ?? change.path;
+      if (change.action === 'skip') {
+        // Still based on the previous upstream content: merge against it next time
+        const previous = this.getWrittenHash(skill, target, change.path);
+        if (previous) writtenHashes[relativePath] = previous;
+        continue;
+      }
+      if (change.action !== 'unchanged') {
+        await this.ensureDirectory(dirname(change.path));
+        await writeFile(change.path, change.content);
+        installedFiles.push(change.path);
+      }
+      writtenHashes[relativePath] = store ? await store.put(change.upstream) : hashContent(change.upstream);
+    }
 
-    // Write skill content as SKILL.md inside the skill directory
-    for (const [filename, content] of files) {
-      // Write as SKILL.md inside the skill folder
-      const filePath = join(skillDirectory, 'SKILL.md');
-      await writeFile(filePath, content, 'utf-8');
-      installedFiles.push(filePath);
+    if (origin) {
+      const installPath = join(target.path, adapter.getInstallPath(skill));
+      const assetsPath = adapter.getAssetsPath(skill);
+      await this.recordInstall(skill, origin, target, installPath, hashSkillFiles(files),
+        files.size > 1 && assetsPath ? join(target.path, assetsPath) : undefined, writtenHashes);
+      // Drop the bases of content overwritten since
+      await store?.retain(manifest!.getWrittenHashes());
     }
 
     return installedFiles;
   }
 
+  /**
+   * The manifest recording installations to a target: the user-wide one for global targets
+   */
+  private getManifest(target: Target): SkillManifest | undefined {
+    return target.global ? this.globalManifest : this.manifest;
+  }
+
+  /**
+   * The store of what was written to a target, next to the manifest recording it
+   */
+  private getStore(target: Target): ContentStore | undefined {
+    const manifest = this.getManifest(target);
+    return manifest && new ContentStore(manifest.directory, this.cacheDirectory);
+  }
+
+  /**
+   * Hash of the content help-me-ai last wrote to a file, from the manifest
+   */
+  private getWrittenHash(skill: Skill, target: Target, path: string): string | undefined {
+    const manifest = this.getManifest(target);
+    const relativePath = manifest?.toRelativePath(path);
+    if (!relativePath) {
+      return undefined;
+    }
+    return manifest?.get(skill.id)?.targets
+      .map((target) => target.files?.[relativePath])
+      .find((hash) => hash !== undefined);
+  }
+
+  /**
+   * Record an installation in the manifest and save it
+   */
+  private async recordInstall(
+    skill: Skill,
+    origin: InstallOrigin,
+    target: Target,
+    installPath: string,
+    hash?: string,
+    assetsPath?: string,
+    files?: Record<string, string>
+  ): Promise<void> {
+    const manifest = this.getManifest(target);
+    if (!manifest) {
+      return;
+    }
+
+    manifest.record(
+      {
+        id: skill.id,
+        name: skill.name,
+        source: {
+          path: skill.path,
+          skillsShUrl: skill.skillsShUrl,
+          files: skill.files,
+          directory: skill.directory,
+          tarball: skill.tarball,
+          tarballRoot: skill.tarballRoot,
+          integrity: skill.integrity,
+        },
+        registry: origin.registryUrl,
+        dependency: {
+          name: origin.dependency.name,
+          version: origin.dependency.version,
+          workspace: origin.dependency.workspace,
+        },
+        hash,
+        placeholders: origin.placeholders && Object.keys(origin.placeholders).length > 0
+          ? origin.placeholders
+          : undefined,
+        installedAt: new Date().toISOString(),
+      },
+      {
+        type: target.type,
+        path: manifest.toRelativePath(installPath),
+        assetsPath: assetsPath && manifest.toRelativePath(assetsPath),
+        files,
+      }
+    );
+    await manifest.save();
+  }
+
   /**
    * Get the display name for a target type
    */
   getTargetDisplayName(type: TargetType): string {
-    switch (type) {
-      case 'cursor':
-        return '.cursor/skills/';
-      case 'claude':
-        return '.claude/skills/';
-      default:
-        return type;
-    }
+    return this.targetRegistry.get(type)?.displayName ?? type;
   }
 
   /**
-   * Check if a directory exists
+   * Get the adapter handling a target type
    */
-  private async directoryExists(path: string): Promise<boolean> {
-    try {
-      await access(path);
-      return true;
-    } catch {
-      return false;
+  getAdapter(type: TargetType): TargetAdapter {
+    const adapter = this.targetRegistry.get(type);
+    if (!adapter) {
+      throw new Error(`Unknown target "${type}"`);
     }
+    return adapter;
   }
 
   /**
@@ -115,3 +552,34 @@ export class SkillInstaller {
     await mkdir(path, { recursive: true });
   }
 }
+
+/**
+ * Map items with an async function, running at most `limit` calls at a time.
+ * Results are in the order of the items.
+ */
+async function mapConcurrent<T, R>(items: T[], limit: number, map: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await map(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Read a file that may not exist yet
+ */
+async function readExisting(path: string): Promise<Buffer | null> {
+  try {
+    return await readFile(path);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,26 @@
+import { createHash } from 'node:crypto';
+
+const ALGORITHMS = ['sha256', 'sha384', 'sha512'];
+
+/**
+ * Subresource Integrity string of some content, e.g. "sha256-<base64>"
+ */
+export function computeIntegrity(content: Buffer | string, algorithm = 'sha256'): string {
+  return `${algorithm}-${createHash(algorithm).update(content).digest('base64')}`;
+}
+
+/**
+ * Check content against an integrity string.
+ * Like SRI, several space-separated hashes may be given; one matching is enough.
+ * Throws when none of them uses a supported algorithm.
+ */
+export function matchesIntegrity(content: Buffer | string, integrity: string): boolean {
+  const hashes = integrity.trim().split(/\s+/)
+    .map((hash) => hash.match(/^(sha\d+)-(.+)$/))
+    .filter((match): match is RegExpMatchArray => match !== null && ALGORITHMS.includes(match[1]));
+
+  if (hashes.length === 0) {
+    throw new Error(`Unsupported integrity "${integrity}" (expected sha256-, sha384- or sha512-<base64>)`);
+  }
+  return hashes.some(([hash, algorithm]) => computeIntegrity(content, algorithm) === hash);
+}
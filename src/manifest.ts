@@ -0,0 +1,117 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { createHash } from 'node:crypto';
+import { join, relative, resolve, sep } from 'node:path';
+import type { Manifest, ManifestEntry, ManifestTarget, SkillFiles } from './types.js';
+
+/**
+ * Name of the manifest file, committed at the project root
+ */
+export const MANIFEST_FILE = '.help-me-ai.lock';
+
+const MANIFEST_VERSION = 1;
+
+/**
+ * Compute the content hash recorded in the manifest for a skill's files
+ */
+export function hashSkillFiles(files: SkillFiles): string {
+  const hash = createHash('sha256');
+  for (const name of [...files.keys()].sort()) {
+    hash.update(name).update('\0').update(files.get(name)!).update('\0');
+  }
+  return `sha256-${hash.digest('base64')}`;
+}
+
+/**
+ * Records which skills were installed by help-me-ai, where from and where to
+ */
+export class SkillManifest {
+  private constructor(
+    readonly directory: string,
+    private manifest: Manifest
+  ) {}
+
+  /**
+   * Load the manifest of a project, or start an empty one
+   */
+  static async load(directory: string): Promise<SkillManifest> {
+    try {
+      const content = await readFile(join(directory, MANIFEST_FILE), 'utf-8');
+      return new SkillManifest(directory, JSON.parse(content) as Manifest);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return new SkillManifest(directory, { version: MANIFEST_VERSION, skills: [] });
+      }
+      throw new Error(`Could not read ${MANIFEST_FILE}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * All installed skills, sorted by id
+   */
+  entries(): ManifestEntry[] {
+    return [...this.manifest.skills];
+  }
+
+  get(id: string): ManifestEntry | undefined {
+    return this.manifest.skills.find((entry) => entry.id === id);
+  }
+
+  /**
+   * Record an installation of a skill to one target.
+   * Targets from previous installations of the same skill are kept.
+   */
+  record(entry: Omit<ManifestEntry, 'targets'>, target: ManifestTarget): void {
+    const previous = this.get(entry.id);
+    const targets = (previous?.targets ?? []).filter((t) => t.path !== target.path);
+    targets.push(target);
+    targets.sort((a, b) => a.path.localeCompare(b.path));
+
+    this.remove(entry.id);
+    this.manifest.skills.push({ ...entry, targets });
+    this.manifest.skills.sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  /**
+   * Ids of the skills left unselected, sorted
+   */
+  getDeclined(): string[] {
+    return [...(this.manifest.declined ?? [])];
+  }
+
+  /**
+   * Record which of the `offered` skills were selected. The others are declined;
+   * skills not offered this time keep their previous state.
+   */
+  recordSelection(offered: string[], selected: string[]): void {
+    const declined = new Set((this.manifest.declined ?? []).filter((id) => !offered.includes(id)));
+    offered.filter((id) => !selected.includes(id)).forEach((id) => declined.add(id));
+    if (declined.size > 0) {
+      this.manifest.declined = [...declined].sort();
+    } else {
+      delete this.manifest.declined;
+    }
+  }
+
+  /**
+   * Hashes of the content help-me-ai last wrote to every recorded file
+   */
+  getWrittenHashes(): string[] {
+    return this.manifest.skills.flatMap((entry) => entry.targets.flatMap((target) => Object.values(target.files ?? {})));
+  }
+
+  remove(id: string): void {
+    this.manifest.skills = this.manifest.skills.filter((entry) => entry.id !== id);
+  }
+
+  /**
+   * Convert a path to the project-relative, forward-slash form used in the manifest
+   */
+  toRelativePath(path: string): string {
+    return relative(this.directory, resolve(this.directory, path)).split(sep).join('/');
+  }
+
+  async save(): Promise<void> {
+    const content = JSON.stringify(this.manifest, null, 2) + '\n';
+    await writeFile(join(this.directory, MANIFEST_FILE), content, 'utf-8');
+  }
+}
@@ -1,45 +1,175 @@
 import { satisfies, coerce } from 'semver';
-import type { Dependency, Skill, SkillsIndex, MatchedSkill } from './types.js';
+import { ProjectFiles } from './project-files.js';
+import { rankMatches } from './ranking.js';
+import { resolveRelationships } from './relationships.js';
+import type { Config, Dependency, MatchCondition, MatchGroup, Skill, SkillsIndex, MatchedSkill } from './types.js';
+
+/**
+ * Project settings that change which skills match
+ */
+export type MatchOptions = Pick<Config, 'include' | 'exclude' | 'ignoreDependencies'>;
+
+/**
+ * Stands in for the triggering dependency of skills included by configuration
+ */
+export const CONFIG_DEPENDENCY: Dependency = { name: 'config', version: 'include', isDev: false };
+
+interface Evaluation {
+  matched: boolean;
+  /** Libraries that satisfied library conditions, with the range they satisfied */
+  libraries: { dependency: Dependency; range: string }[];
+  /** Project files that satisfied file conditions */
+  files: string[];
+}
+
+const NO_MATCH: Evaluation = { matched: false, libraries: [], files: [] };
 
 /**
  * Match project dependencies against available skills
  */
 export class SkillMatcher {
+  constructor(private options: MatchOptions = { include: [], exclude: [], ignoreDependencies: [] }) {}
+
   /**
-   * Find all skills that match the given dependencies
+   * Find all skills that match the given dependencies, plus the ones the configuration includes
+   * and the ones they require. Superseded skills are kept but marked.
+   * File conditions are tested against `files` (none by default).
+   * Results are scored and sorted, most relevant first.
    */
-  matchSkills(dependencies: Dependency[], index: SkillsIndex): MatchedSkill[] {
+  matchSkills(
+    dependencies: Dependency[],
+    index: SkillsIndex,
+    files: ProjectFiles = new ProjectFiles()
+  ): MatchedSkill[] {
     const matched: MatchedSkill[] = [];
+    const ignored = this.options.ignoreDependencies.map(patternToRegExp);
+    const relevant = dependencies.filter((dep) => !ignored.some((pattern) => pattern.test(dep.name)));
 
     for (const skill of index.skills) {
-      const dependency = this.findMatchingDependency(skill, dependencies);
-      if (dependency) {
-        matched.push({ skill, dependency });
+      if (this.options.exclude.includes(skill.id)) {
+        continue;
+      }
+      const included = this.options.include.includes(skill.id);
+      const evaluation = this.evaluateSkill(skill, relevant, files);
+      if (!evaluation.matched && !included) {
+        continue;
       }
+      matched.push({
+        skill,
+        dependency: this.getTrigger(skill, evaluation) ?? CONFIG_DEPENDENCY,
+        score: 0,
+        explanation: {
+          libraries: evaluation.libraries.map(({ dependency, range }) => ({
+            name: dependency.name,
+            version: dependency.version,
+            workspace: dependency.workspace,
+            range,
+            kind: isWildcard(range) ? 'wildcard' : 'version',
+          })),
+          files: evaluation.files,
+          included,
+        },
+      });
+    }
+
+    const available = index.skills.filter((skill) => !this.options.exclude.includes(skill.id));
+    return rankMatches(resolveRelationships(matched, { ...index, skills: available }));
+  }
+
+  /**
+   * The dependency that triggers a matched skill: the first library its conditions matched,
+   * else the first file. Returns null when the skill did not match.
+   */
+  private getTrigger(skill: Skill, evaluation: Evaluation): Dependency | null {
+    if (!evaluation.matched) {
+      return null;
+    }
+    if (evaluation.libraries.length > 0) {
+      return evaluation.libraries[0].dependency;
+    }
+    const [file] = evaluation.files;
+    return { name: file ?? skill.id, version: file ? 'file' : '*', isDev: false };
+  }
+
+  /**
+   * Evaluate all the conditions of a skill
+   */
+  private evaluateSkill(skill: Skill, dependencies: Dependency[], files: ProjectFiles): Evaluation {
+    // `matchingLibraries` is shorthand for an `anyOf` of libraries
+    const groups: MatchGroup[] = [];
+    if (skill.matchingLibraries) {
+      groups.push({
+        anyOf: skill.matchingLibraries.map(({ name, ...rest }) => ({ library: name, ...rest })),
+      });
+    }
+    if (skill.match) {
+      groups.push(skill.match);
+    }
+    if (groups.length === 0) {
+      return NO_MATCH;
     }
 
-    return matched;
+    return this.evaluate({ allOf: groups }, dependencies, files);
   }
 
   /**
-   * Find a dependency that matches a skill's requirements
+   * Evaluate a match condition, keeping every library and file that satisfied it.
+   * Every `anyOf` branch is evaluated so the explanation lists all of them.
    */
-  private findMatchingDependency(
-    skill: Skill,
-    dependencies: Dependency[]
-  ): Dependency | null {
-    // Check each matching library configuration
-    for (const matchingLib of skill.matchingLibraries) {
-      for (const dep of dependencies) {
-        if (dep.name === matchingLib.name) {
-          // Try to match the version
-          if (this.versionMatches(dep.version, matchingLib.versionRange)) {
-            return dep;
-          }
+  private evaluate(condition: MatchCondition, dependencies: Dependency[], files: ProjectFiles): Evaluation {
+    if ('library' in condition) {
+      // Every package of a monorepo that has the library, so the skill shows under each workspace
+      const range = condition.versionRange ?? '*';
+      const matching = dependencies.filter((dep) =>
+        dep.name === condition.library &&
+        !(condition.devOnly && !dep.isDev) &&
+        !(condition.prodOnly && dep.isDev) &&
+        this.versionMatches(dep.version, range)
+      );
+      return matching.length > 0
+        ? { matched: true, libraries: matching.map((dependency) => ({ dependency, range })), files: [] }
+        : NO_MATCH;
+    }
+
+    if ('file' in condition) {
+      const file = files.find(condition.file);
+      return file ? { matched: true, libraries: [], files: [file] } : NO_MATCH;
+    }
+
+    const { allOf, anyOf, noneOf } = condition;
+    if (!allOf && !anyOf && !noneOf) {
+      return NO_MATCH;
+    }
+
+    const result: Evaluation = { matched: true, libraries: [], files: [] };
+    const keep = (evaluation: Evaluation) => {
+      for (const library of evaluation.libraries) {
+        if (!result.libraries.some((kept) => kept.dependency === library.dependency)) {
+          result.libraries.push(library);
         }
       }
+      for (const file of evaluation.files) {
+        if (!result.files.includes(file)) result.files.push(file);
+      }
+    };
+
+    for (const child of allOf ?? []) {
+      const evaluation = this.evaluate(child, dependencies, files);
+      if (!evaluation.matched) return NO_MATCH;
+      keep(evaluation);
+    }
+
+    if (anyOf) {
+      const matches = anyOf.map((child) => this.evaluate(child, dependencies, files)).filter((e) => e.matched);
+      if (matches.length === 0) return NO_MATCH;
+      matches.forEach(keep);
+    }
+
+    for (const child of noneOf ?? []) {
+      if (this.evaluate(child, dependencies, files).matched) return NO_MATCH;
     }
-    return null;
+
+    return result;
   }
 
   /**
@@ -74,3 +204,12 @@ export class SkillMatcher {
     return false;
   }
 }
+
+function isWildcard(range: string): boolean {
+  return ['', '*', 'x', 'X'].includes(range.trim());
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const escaped = pattern.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'));
+  return new RegExp(`^${escaped.join('.*')}$`);
+}
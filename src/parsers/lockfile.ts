@@ -0,0 +1,240 @@
+import { readFile, access } from 'node:fs/promises';
+import { join, dirname } from 'node:path';
+import { maxSatisfying, valid, validRange } from 'semver';
+
+/**
+ * Versions resolved from a lockfile, keyed by package name
+ */
+export interface LockfileResult {
+  packageManager: string;
+  path: string;
+  versions: Map<string, string[]>;
+}
+
+interface LockfileFormat {
+  file: string;
+  packageManager: string;
+  parse(content: string): Map<string, string[]>;
+}
+
+const LOCKFILE_FORMATS: LockfileFormat[] = [
+  { file: 'package-lock.json', packageManager: 'npm', parse: parsePackageLock },
+  { file: 'npm-shrinkwrap.json', packageManager: 'npm', parse: parsePackageLock },
+  { file: 'yarn.lock', packageManager: 'yarn', parse: parseYarnLock },
+  { file: 'pnpm-lock.yaml', packageManager: 'pnpm', parse: parsePnpmLock },
+  { file: 'bun.lock', packageManager: 'bun', parse: parseBunLock },
+];
+
+/**
+ * Reads the lockfile of a project to find the exact installed versions
+ */
+export class LockfileReader {
+  /**
+   * Find and parse the lockfile for a directory.
+   * Walks up parent directories (stopping at the git root) so that
+   * packages inside a workspace use the lockfile at the repository root.
+   */
+  async read(directory: string): Promise<LockfileResult | null> {
+    let current = directory;
+
+    while (true) {
+      for (const format of LOCKFILE_FORMATS) {
+        const path = join(current, format.file);
+        if (await this.fileExists(path)) {
+          const content = await readFile(path, 'utf-8');
+          return {
+            packageManager: format.packageManager,
+            path,
+            versions: format.parse(content),
+          };
+        }
+      }
+
+      const parent = dirname(current);
+      if (parent === current || (await this.fileExists(join(current, '.git')))) {
+        return null;
+      }
+      current = parent;
+    }
+  }
+
+  /**
+   * Resolve the installed version of a dependency declared with the given range.
+   * Returns null when the lockfile has no version for it.
+   */
+  resolveVersion(lockfile: LockfileResult, name: string, range: string): string | null {
+    const versions = lockfile.versions.get(name);
+    if (!versions || versions.length === 0) {
+      return null;
+    }
+
+    // Several versions of the same package can be installed; pick the one the range selects
+    if (validRange(range)) {
+      const best = maxSatisfying(versions, range);
+      if (best) {
+        return best;
+      }
+    }
+
+    // Non-semver specifiers (workspace:, file:, git URLs, aliases) — only trust an unambiguous entry
+    return versions.length === 1 ? versions[0] : null;
+  }
+
+  private async fileExists(path: string): Promise<boolean> {
+    try {
+      await access(path);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+function addVersion(versions: Map<string, string[]>, name: string, version: string): void {
+  const cleaned = version.trim().replace(/^["']|["']$/g, '');
+  if (!name || !valid(cleaned)) {
+    return;
+  }
+  const existing = versions.get(name);
+  if (!existing) {
+    versions.set(name, [cleaned]);
+  } else if (!existing.includes(cleaned)) {
+    existing.push(cleaned);
+  }
+}
+
+/**
+ * Split a `name@version` string, taking care of scoped package names
+ */
+function splitNameAndVersion(value: string): [string, string] | null {
+  const at = value.indexOf('@', 1);
+  if (at <= 0) {
+    return null;
+  }
+  return [value.slice(0, at), value.slice(at + 1)];
+}
+
+interface PackageLockEntry {
+  version?: string;
+  dependencies?: Record<string, PackageLockEntry>;
+}
+
+/**
+ * package-lock.json / npm-shrinkwrap.json (lockfileVersion 1, 2 and 3)
+ */
+function parsePackageLock(content: string): Map<string, string[]> {
+  const versions = new Map<string, string[]>();
+  const lock = JSON.parse(content) as {
+    packages?: Record<string, PackageLockEntry & { name?: string }>;
+    dependencies?: Record<string, PackageLockEntry>;
+  };
+
+  if (lock.packages) {
+    for (const [path, entry] of Object.entries(lock.packages)) {
+      const index = path.lastIndexOf('node_modules/');
+      if (index === -1 || !entry.version) continue;
+      addVersion(versions, entry.name ?? path.slice(index + 'node_modules/'.length), entry.version);
+    }
+    return versions;
+  }
+
+  // lockfileVersion 1 nests transitive dependencies
+  const visit = (dependencies: Record<string, PackageLockEntry>) => {
+    for (const [name, entry] of Object.entries(dependencies)) {
+      if (entry.version) addVersion(versions, name, entry.version);
+      if (entry.dependencies) visit(entry.dependencies);
+    }
+  };
+  if (lock.dependencies) visit(lock.dependencies);
+
+  return versions;
+}
+
+/**
+ * yarn.lock, both classic (v1) and berry (v2+) formats
+ */
+function parseYarnLock(content: string): Map<string, string[]> {
+  const versions = new Map<string, string[]>();
+  let names: string[] = [];
+
+  for (const line of content.split(/\r?\n/)) {
+    if (line.startsWith('#') || line.trim() === '') continue;
+
+    // Entry header: `"react@^18.0.0", react@^18.2.0:` (classic) or `"react@npm:^18.2.0":` (berry)
+    if (!line.startsWith(' ')) {
+      names = [];
+      if (line.startsWith('__metadata')) continue;
+      for (const specifier of line.replace(/:$/, '').split(',')) {
+        const parsed = splitNameAndVersion(specifier.trim().replace(/^"|"$/g, ''));
+        if (parsed && !parsed[1].startsWith('workspace:')) {
+          names.push(parsed[0]);
+        }
+      }
+      continue;
+    }
+
+    const match = line.match(/^ {2}version:? +(.+)$/);
+    if (match) {
+      for (const name of new Set(names)) {
+        addVersion(versions, name, match[1]);
+      }
+    }
+  }
+
+  return versions;
+}
+
+/**
+ * pnpm-lock.yaml (lockfile v5, v6 and v9 package keys)
+ */
+function parsePnpmLock(content: string): Map<string, string[]> {
+  const versions = new Map<string, string[]>();
+  let inPackages = false;
+
+  for (const line of content.split(/\r?\n/)) {
+    if (!line.startsWith(' ') && line.trim() !== '') {
+      inPackages = line === 'packages:' || line === 'snapshots:';
+      continue;
+    }
+    if (!inPackages) continue;
+
+    const match = line.match(/^ {2}['"]?([^\s'"]+?)['"]?:\s*$/);
+    if (!match) continue;
+
+    // Strip peer dependency suffixes: `(react@18.2.0)` (v6+) or `_react@18.2.0` (v5)
+    const key = match[1].replace(/^\//, '').replace(/\(.*$/, '');
+
+    const v5 = key.match(/^(@?[^@]+?)\/(\d[^/_]*)(?:_.*)?$/);
+    if (v5) {
+      addVersion(versions, v5[1], v5[2]);
+      continue;
+    }
+
+    const parsed = splitNameAndVersion(key);
+    if (parsed) {
+      addVersion(versions, parsed[0], parsed[1]);
+    }
+  }
+
+  return versions;
+}
+
+/**
+ * bun.lock (text lockfile, JSON with trailing commas)
+ */
+function parseBunLock(content: string): Map<string, string[]> {
+  const versions = new Map<string, string[]>();
+  const lock = JSON.parse(content.replace(/,(\s*[}\]])/g, '$1')) as {
+    packages?: Record<string, unknown[]>;
+  };
+
+  for (const entry of Object.values(lock.packages ?? {})) {
+    if (!Array.isArray(entry) || typeof entry[0] !== 'string') continue;
+    const parsed = splitNameAndVersion(entry[0]);
+    if (parsed) {
+      addVersion(versions, parsed[0], parsed[1]);
+    }
+  }
+
+  return versions;
+}
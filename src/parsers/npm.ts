@@ -2,6 +2,8 @@ import { readFile, access } from 'node:fs/promises';
 import { join } from 'node:path';
 import { coerce } from 'semver';
 import { PackageParser } from './base.js';
+import { LockfileReader, type LockfileResult } from './lockfile.js';
+import { WorkspaceResolver } from './workspaces.js';
 import type { Dependency, ParseResult } from '../types.js';
 
 interface PackageJson {
@@ -9,6 +11,7 @@ interface PackageJson {
   version?: string;
   dependencies?: Record<string, string>;
   devDependencies?: Record<string, string>;
+  packageManager?: string;
 }
 
 /**
@@ -17,6 +20,8 @@ interface PackageJson {
 export class NpmParser extends PackageParser {
   readonly name = 'npm';
   readonly configFile = 'package.json';
+  private lockfileReader = new LockfileReader();
+  private workspaceResolver = new WorkspaceResolver();
 
   async canParse(directory: string): Promise<boolean> {
     const packageJsonPath = join(directory, this.configFile);
@@ -29,10 +34,39 @@ export class NpmParser extends PackageParser {
   }
 
   async parse(directory: string): Promise<ParseResult> {
+    const packageJson = await this.readPackageJson(directory);
+    const lockfile = await this.lockfileReader.read(directory);
+    const workspaces = await this.workspaceResolver.resolve(directory);
+
+    const dependencies = this.collectDependencies(packageJson, lockfile);
+
+    // Parse every workspace member package
+    for (const workspace of workspaces) {
+      const workspacePackageJson = await this.readPackageJson(join(directory, workspace.path));
+      dependencies.push(...this.collectDependencies(workspacePackageJson, lockfile, workspace.path));
+    }
+
+    return {
+      dependencies,
+      packageManager: lockfile?.packageManager ?? this.detectPackageManager(packageJson),
+      workspaces,
+    };
+  }
+
+  private async readPackageJson(directory: string): Promise<PackageJson> {
     const packageJsonPath = join(directory, this.configFile);
     const content = await readFile(packageJsonPath, 'utf-8');
-    const packageJson: PackageJson = JSON.parse(content);
+    return JSON.parse(content);
+  }
 
+  /**
+   * Collect the dependencies declared in a package.json
+   */
+  private collectDependencies(
+    packageJson: PackageJson,
+    lockfile: LockfileResult | null,
+    workspace?: string
+  ): Dependency[] {
     const dependencies: Dependency[] = [];
 
     // Parse regular dependencies
@@ -40,8 +74,9 @@ export class NpmParser extends PackageParser {
       for (const [name, version] of Object.entries(packageJson.dependencies)) {
         dependencies.push({
           name,
-          version: this.normalizeVersion(version),
+          version: this.resolveVersion(name, version, lockfile),
           isDev: false,
+          workspace,
         });
       }
     }
@@ -51,16 +86,37 @@ export class NpmParser extends PackageParser {
       for (const [name, version] of Object.entries(packageJson.devDependencies)) {
         dependencies.push({
           name,
-          version: this.normalizeVersion(version),
+          version: this.resolveVersion(name, version, lockfile),
           isDev: true,
+          workspace,
         });
       }
     }
 
-    return {
-      dependencies,
-      packageManager: this.name,
-    };
+    return dependencies;
+  }
+
+  /**
+   * Get the installed version of a dependency from the lockfile,
+   * falling back to the version declared in package.json
+   */
+  private resolveVersion(name: string, range: string, lockfile: LockfileResult | null): string {
+    if (lockfile) {
+      const resolved = this.lockfileReader.resolveVersion(lockfile, name, range);
+      if (resolved) {
+        return resolved;
+      }
+    }
+    return this.normalizeVersion(range);
+  }
+
+  /**
+   * Detect the package manager from the `packageManager` field (e.g. "pnpm@9.0.0")
+   * when no lockfile is present
+   */
+  private detectPackageManager(packageJson: PackageJson): string {
+    const match = packageJson.packageManager?.match(/^(npm|yarn|pnpm|bun)@/);
+    return match ? match[1] : this.name;
   }
 
   /**
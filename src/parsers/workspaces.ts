@@ -0,0 +1,157 @@
+import { readFile, readdir, access } from 'node:fs/promises';
+import { join, relative, sep } from 'node:path';
+import { globToRegExp } from '../glob.js';
+import type { Workspace } from '../types.js';
+
+interface PackageJson {
+  name?: string;
+  workspaces?: string[] | { packages?: string[] };
+}
+
+/**
+ * Maximum directory depth explored for `**` workspace globs
+ */
+const MAX_GLOB_DEPTH = 6;
+
+/**
+ * Expands workspace globs (package.json `workspaces`, pnpm-workspace.yaml)
+ * into the list of member packages of a monorepo
+ */
+export class WorkspaceResolver {
+  /**
+   * Find all workspace member packages of the project at `directory`.
+   * Returns an empty list for single-package projects.
+   */
+  async resolve(directory: string): Promise<Workspace[]> {
+    const patterns = await this.readPatterns(directory);
+    const include = patterns.filter((pattern) => !pattern.startsWith('!'));
+    const exclude = patterns
+      .filter((pattern) => pattern.startsWith('!'))
+      .map((pattern) => globToRegExp(pattern.slice(1)));
+
+    const found = new Set<string>();
+    for (const pattern of include) {
+      for (const path of await this.expand(directory, pattern)) {
+        found.add(path);
+      }
+    }
+
+    const workspaces: Workspace[] = [];
+    for (const path of [...found].sort()) {
+      if (path === '' || exclude.some((regexp) => regexp.test(path))) continue;
+
+      const packageJsonPath = join(directory, path, 'package.json');
+      if (!(await this.fileExists(packageJsonPath))) continue;
+
+      let name = path;
+      try {
+        const packageJson: PackageJson = JSON.parse(await readFile(packageJsonPath, 'utf-8'));
+        name = packageJson.name ?? path;
+      } catch {
+        // Keep the path as the name for unreadable manifests
+      }
+      workspaces.push({ name, path });
+    }
+
+    return workspaces;
+  }
+
+  /**
+   * Read workspace globs from package.json and pnpm-workspace.yaml
+   */
+  private async readPatterns(directory: string): Promise<string[]> {
+    const patterns: string[] = [];
+
+    try {
+      const packageJson: PackageJson = JSON.parse(
+        await readFile(join(directory, 'package.json'), 'utf-8')
+      );
+      const workspaces = Array.isArray(packageJson.workspaces)
+        ? packageJson.workspaces
+        : packageJson.workspaces?.packages ?? [];
+      patterns.push(...workspaces);
+    } catch {
+      // No package.json or invalid JSON — nothing to expand
+    }
+
+    try {
+      const content = await readFile(join(directory, 'pnpm-workspace.yaml'), 'utf-8');
+      patterns.push(...parsePnpmWorkspace(content));
+    } catch {
+      // Not a pnpm workspace
+    }
+
+    return patterns.map((pattern) => pattern.replace(/^\.\//, '').replace(/\/+$/, ''));
+  }
+
+  /**
+   * List directories (relative to `root`) that match a glob pattern
+   */
+  private async expand(root: string, pattern: string): Promise<string[]> {
+    const segments = pattern.split('/');
+    const firstGlob = segments.findIndex((segment) => segment.includes('*'));
+    if (firstGlob === -1) {
+      return [pattern];
+    }
+
+    // Walk only below the static prefix of the pattern
+    const base = segments.slice(0, firstGlob).join('/');
+    const depth = segments.includes('**') ? MAX_GLOB_DEPTH : segments.length - firstGlob;
+    const regexp = globToRegExp(pattern);
+
+    const matches: string[] = [];
+    const walk = async (dir: string, level: number): Promise<void> => {
+      if (level > depth) return;
+      let entries;
+      try {
+        entries = await readdir(dir, { withFileTypes: true });
+      } catch {
+        return;
+      }
+      for (const entry of entries) {
+        if (!entry.isDirectory() || entry.name === 'node_modules' || entry.name.startsWith('.')) {
+          continue;
+        }
+        const path = join(dir, entry.name);
+        const relativePath = relative(root, path).split(sep).join('/');
+        if (regexp.test(relativePath)) {
+          matches.push(relativePath);
+        }
+        await walk(path, level + 1);
+      }
+    };
+    await walk(join(root, base), 1);
+
+    return matches;
+  }
+
+  private async fileExists(path: string): Promise<boolean> {
+    try {
+      await access(path);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+/**
+ * Read the `packages:` list of a pnpm-workspace.yaml file
+ */
+function parsePnpmWorkspace(content: string): string[] {
+  const patterns: string[] = [];
+  let inPackages = false;
+
+  for (const line of content.split(/\r?\n/)) {
+    if (!line.startsWith(' ') && !line.startsWith('-') && line.trim() !== '') {
+      inPackages = line.trim() === 'packages:';
+      continue;
+    }
+    const match = line.match(/^\s*-\s*['"]?([^'"#]+?)['"]?\s*(#.*)?$/);
+    if (inPackages && match) {
+      patterns.push(match[1]);
+    }
+  }
+
+  return patterns;
+}
@@ -0,0 +1,19 @@
+import { posix } from 'node:path';
+
+/**
+ * Normalize a path inside a skill folder and reject anything that could
+ * escape it (absolute paths, `..` segments, drive letters)
+ */
+export function normalizeSkillPath(path: string): string {
+  const unified = path.replace(/\\/g, '/');
+  if (unified.startsWith('/') || /^[A-Za-z]:/.test(unified) || unified.includes('\0')) {
+    throw new Error(`Unsafe path in skill package: "${path}"`);
+  }
+
+  const normalized = posix.normalize(unified).replace(/^(\.\/)+/, '').replace(/\/+$/, '');
+  if (normalized === '' || normalized === '.' || normalized === '..' || normalized.startsWith('../')) {
+    throw new Error(`Unsafe path in skill package: "${path}"`);
+  }
+
+  return normalized;
+}
@@ -0,0 +1,233 @@
+import { readFile } from 'node:fs/promises';
+import { join, posix } from 'node:path';
+import type { SkillManifest } from './manifest.js';
+import type { ProjectFiles } from './project-files.js';
+import type { Skill, SkillFiles, SkillPlaceholder } from './types.js';
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+const SCRIPT_EXTENSION = /\.(?:[cm]?[jt]sx?)$/;
+
+/**
+ * Path aliases of a tsconfig.json (`compilerOptions.paths`), resolved against its directory
+ */
+interface PathAliases {
+  /** Project-relative directory the alias targets are relative to */
+  base: string;
+  paths: Record<string, string[]>;
+}
+
+/**
+ * A placeholder that could not be resolved, to ask the user about
+ */
+export interface PlaceholderQuestion {
+  skill: Skill;
+  name: string;
+  placeholder: SkillPlaceholder;
+}
+
+/**
+ * Replace the `{{name}}` placeholders of text files, and the sample values they declare in
+ * `replaces`, with the given values.
+ * Placeholders without a value are left as they are; their samples become `{{name}}`.
+ */
+export function fillPlaceholders(skill: Skill, files: SkillFiles, values: Record<string, string>): SkillFiles {
+  const samples = Object.entries(skill.placeholders ?? {}).filter(([, placeholder]) => placeholder.replaces);
+  if (Object.keys(values).length === 0 && samples.length === 0) {
+    return files;
+  }
+
+  const filled: SkillFiles = new Map();
+  for (const [path, content] of files) {
+    if (typeof content !== 'string') {
+      filled.set(path, content);
+      continue;
+    }
+    const marked = samples.reduce(
+      (text, [name, placeholder]) => text.split(placeholder.replaces!).join(`{{${name}}}`),
+      content
+    );
+    filled.set(path, marked.replace(PLACEHOLDER_PATTERN, (token, name: string) => values[name] ?? token));
+  }
+  return filled;
+}
+
+/**
+ * The placeholders declared by a skill that are still in a file's content, left unfilled
+ */
+export function findPlaceholders(skill: Skill, content: string | Buffer): string[] {
+  if (typeof content !== 'string') {
+    return [];
+  }
+  const names = [...content.matchAll(PLACEHOLDER_PATTERN)].map(([, name]) => name);
+  return [...new Set(names)].filter((name) => Object.hasOwn(skill.placeholders ?? {}, name));
+}
+
+/**
+ * Whether a file still has `[TO-EDIT ...]` comments, the older way of marking project-specific parts
+ */
+export function hasEditMarkers(content: string | Buffer): boolean {
+  return typeof content === 'string' && content.includes('[TO-EDIT');
+}
+
+/**
+ * The placeholders of skills that have no value yet, in skill order
+ */
+export function getPlaceholderQuestions(
+  skills: Skill[],
+  values: Record<string, Record<string, string>>
+): PlaceholderQuestion[] {
+  return skills.flatMap((skill) =>
+    Object.entries(skill.placeholders ?? {})
+      .filter(([name]) => values[skill.id]?.[name] === undefined)
+      .map(([name, placeholder]) => ({ skill, name, placeholder }))
+  );
+}
+
+/**
+ * Fill the placeholders still without a value with their default, for runs that cannot ask
+ */
+export function applyDefaults(
+  skills: Skill[],
+  values: Record<string, Record<string, string>>
+): Record<string, Record<string, string>> {
+  const filled = { ...values };
+  for (const skill of skills) {
+    for (const [name, placeholder] of Object.entries(skill.placeholders ?? {})) {
+      if (placeholder.default !== undefined && filled[skill.id]?.[name] === undefined) {
+        filled[skill.id] = { ...filled[skill.id], [name]: placeholder.default };
+      }
+    }
+  }
+  return filled;
+}
+
+/**
+ * Find values for skill placeholders by looking at the project
+ */
+export class PlaceholderResolver {
+  private aliases = new Map<string, Promise<PathAliases | null>>();
+
+  /**
+   * @param directory Project root
+   * @param files Files of the project, to test detection globs against
+   */
+  constructor(
+    private directory: string,
+    private files: ProjectFiles
+  ) {}
+
+  /**
+   * Resolve the placeholders of a skill. Values saved from a previous installation come first,
+   * then detection. Placeholders left out need asking, with their default as the suggested answer.
+   */
+  async resolve(skill: Skill, saved: Record<string, string> = {}): Promise<Record<string, string>> {
+    const values: Record<string, string> = {};
+    for (const [name, placeholder] of Object.entries(skill.placeholders ?? {})) {
+      const value = saved[name] ?? await this.detect(placeholder);
+      if (value !== undefined) {
+        values[name] = value;
+      }
+    }
+    return values;
+  }
+
+  /**
+   * Resolve the placeholders of several skills, keyed by skill id,
+   * reusing the values saved in the manifest
+   */
+  async resolveAll(skills: Skill[], manifest?: SkillManifest): Promise<Record<string, Record<string, string>>> {
+    const values: Record<string, Record<string, string>> = {};
+    for (const skill of skills) {
+      values[skill.id] = await this.resolve(skill, manifest?.get(skill.id)?.placeholders);
+    }
+    return values;
+  }
+
+  /**
+   * The first detection glob that matches the project, formatted for the placeholder type
+   */
+  private async detect(placeholder: SkillPlaceholder): Promise<string | undefined> {
+    for (const pattern of placeholder.detect ?? []) {
+      if (placeholder.type === 'directory') {
+        const directory = this.files.findDirectory(pattern);
+        if (directory) return directory;
+        continue;
+      }
+
+      const file = this.files.find(pattern);
+      if (!file) continue;
+      return placeholder.type === 'import' ? await this.toImportPath(file) : file;
+    }
+    return undefined;
+  }
+
+  /**
+   * Turn a project file into the module specifier used to import it:
+   * through a tsconfig path alias when one covers it, else its project-relative path
+   */
+  private async toImportPath(file: string): Promise<string> {
+    const modulePath = file.replace(SCRIPT_EXTENSION, '').replace(/\/index$/, '');
+
+    // The closest tsconfig.json: the file's workspace package, else the root
+    const segments = file.split('/');
+    for (let depth = segments.length - 1; depth >= 0; depth--) {
+      const aliases = await this.loadAliases(segments.slice(0, depth).join('/'));
+      if (!aliases) continue;
+
+      for (const [alias, targets] of Object.entries(aliases.paths)) {
+        for (const target of targets) {
+          const resolved = posix.join(aliases.base, target.replace(SCRIPT_EXTENSION, ''));
+          const [prefix, suffix = ''] = resolved.split('*');
+          if (!resolved.includes('*')) {
+            if (resolved === modulePath) return alias;
+          } else if (modulePath.startsWith(prefix) && modulePath.endsWith(suffix)) {
+            return alias.replace('*', modulePath.slice(prefix.length, modulePath.length - suffix.length));
+          }
+        }
+      }
+      break;
+    }
+
+    return `./${modulePath}`;
+  }
+
+  private loadAliases(directory: string): Promise<PathAliases | null> {
+    if (!this.aliases.has(directory)) {
+      this.aliases.set(directory, readPathAliases(this.directory, directory));
+    }
+    return this.aliases.get(directory)!;
+  }
+}
+
+/**
+ * Read the path aliases of `{directory}/tsconfig.json`. Returns null when there is no tsconfig.
+ */
+async function readPathAliases(root: string, directory: string): Promise<PathAliases | null> {
+  let content: string;
+  try {
+    content = await readFile(join(root, directory, 'tsconfig.json'), 'utf-8');
+  } catch {
+    return null;
+  }
+
+  try {
+    const tsconfig = JSON.parse(stripJsonComments(content)) as {
+      compilerOptions?: { baseUrl?: string; paths?: Record<string, string[]> };
+    };
+    const { baseUrl = '.', paths = {} } = tsconfig.compilerOptions ?? {};
+    return { base: posix.join(directory || '.', baseUrl), paths };
+  } catch {
+    // Not valid JSON, even allowing comments: no aliases
+    return { base: directory, paths: {} };
+  }
+}
+
+/**
+ * tsconfig.json allows comments and trailing commas
+ */
+function stripJsonComments(content: string): string {
+  return content
+    .replace(/("(?:\\.|[^"\\])*")|\/\/[^\n]*|\/\*[\s\S]*?\*\//g, (match, string?: string) => string ?? '')
+    .replace(/,(\s*[}\]])/g, '$1');
+}
@@ -0,0 +1,91 @@
+import { readdir } from 'node:fs/promises';
+import { join, relative, sep } from 'node:path';
+import { globToRegExp } from './glob.js';
+import type { Workspace } from './types.js';
+
+/**
+ * How deep below the project root (and each workspace package) files are listed
+ */
+const MAX_FILE_DEPTH = 4;
+
+const IGNORED_DIRECTORIES = new Set(['node_modules', '.git', 'dist', 'build', 'coverage']);
+
+/**
+ * Files of a project, listed once so that match conditions can test globs against them
+ */
+export class ProjectFiles {
+  private regexps = new Map<string, RegExp>();
+
+  constructor(
+    private paths: string[] = [],
+    private workspaces: Workspace[] = []
+  ) {}
+
+  /**
+   * List the files of a project, down to a few levels below the root
+   */
+  static async scan(directory: string, workspaces: Workspace[] = []): Promise<ProjectFiles> {
+    const paths: string[] = [];
+
+    const walk = async (dir: string, level: number): Promise<void> => {
+      let entries;
+      try {
+        entries = await readdir(dir, { withFileTypes: true });
+      } catch {
+        return;
+      }
+      for (const entry of entries) {
+        const path = join(dir, entry.name);
+        if (entry.isFile()) {
+          paths.push(relative(directory, path).split(sep).join('/'));
+        } else if (entry.isDirectory() && level < MAX_FILE_DEPTH && !IGNORED_DIRECTORIES.has(entry.name)) {
+          await walk(path, level + 1);
+        }
+      }
+    };
+    await walk(directory, 1);
+
+    return new ProjectFiles(paths, workspaces);
+  }
+
+  /**
+   * Find a file matching a glob relative to the project root or to a workspace package.
+   * Returns its path relative to the project root, or null.
+   */
+  find(pattern: string): string | null {
+    return this.findIn(this.paths, pattern);
+  }
+
+  /**
+   * Find a directory holding files that matches a glob, like `find` does for files
+   */
+  findDirectory(pattern: string): string | null {
+    const directories = new Set<string>();
+    for (const path of this.paths) {
+      const segments = path.split('/');
+      for (let depth = 1; depth < segments.length; depth++) {
+        directories.add(segments.slice(0, depth).join('/'));
+      }
+    }
+    return this.findIn([...directories], pattern);
+  }
+
+  private findIn(paths: string[], pattern: string): string | null {
+    let regexp = this.regexps.get(pattern);
+    if (!regexp) {
+      regexp = globToRegExp(pattern);
+      this.regexps.set(pattern, regexp);
+    }
+
+    for (const path of paths) {
+      if (regexp.test(path)) {
+        return path;
+      }
+      const workspace = this.workspaces.find((w) => path.startsWith(`${w.path}/`));
+      if (workspace && regexp.test(path.slice(workspace.path.length + 1))) {
+        return path;
+      }
+    }
+    return null;
+  }
+}
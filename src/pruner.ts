@@ -0,0 +1,85 @@
+import { rm } from 'node:fs/promises';
+import { join, relative, isAbsolute } from 'node:path';
+import { SkillDownloader } from './downloader.js';
+import { SkillMatcher } from './matcher.js';
+import type { ProjectFiles } from './project-files.js';
+import type { SkillManifest } from './manifest.js';
+import { DEFAULT_CONFIG, type Config, type Dependency, type ManifestEntry } from './types.js';
+
+/**
+ * An installed skill that its project no longer calls for
+ */
+export interface StaleSkill {
+  entry: ManifestEntry;
+  reason: string;
+}
+
+/**
+ * Find and remove installed skills whose triggering dependency is gone
+ */
+export class SkillPruner {
+  /**
+   * @param config Matching settings (included skills are never stale) and registry credentials
+   */
+  constructor(
+    private manifest: SkillManifest,
+    private config: Config = DEFAULT_CONFIG
+  ) {}
+
+  /**
+   * Re-match the current dependencies against each installed skill's registry.
+   * Throws if a registry cannot be fetched, so nothing is pruned on a network error.
+   */
+  async findStale(dependencies: Dependency[], files?: ProjectFiles): Promise<StaleSkill[]> {
+    const matcher = new SkillMatcher(this.config);
+    const stale: StaleSkill[] = [];
+
+    const byRegistry = new Map<string, ManifestEntry[]>();
+    for (const entry of this.manifest.entries()) {
+      byRegistry.set(entry.registry, [...(byRegistry.get(entry.registry) ?? []), entry]);
+    }
+
+    for (const [registryUrl, entries] of byRegistry) {
+      const downloader = new SkillDownloader({ ...this.config, registryUrl });
+      const index = await downloader.fetchIndex();
+      const matched = new Set(matcher.matchSkills(dependencies, index, files).map((m) => m.skill.id));
+
+      for (const entry of entries) {
+        if (!index.skills.some((skill) => skill.id === entry.id)) {
+          stale.push({ entry, reason: 'no longer in the registry' });
+        } else if (!matched.has(entry.id)) {
+          stale.push({ entry, reason: `no longer matches (installed for ${entry.dependency.name}@${entry.dependency.version})` });
+        }
+      }
+    }
+
+    return stale;
+  }
+
+  /**
+   * Delete a skill from every target it was installed to and drop it from the manifest.
+   * Only locations recorded in the manifest are removed.
+   */
+  async prune(entry: ManifestEntry): Promise<string[]> {
+    const removed: string[] = [];
+
+    const paths = entry.targets.flatMap((target) =>
+      target.assetsPath ? [target.path, target.assetsPath] : [target.path]
+    );
+    for (const installPath of paths) {
+      const path = join(this.manifest.directory, installPath);
+      const relativePath = relative(this.manifest.directory, path);
+      if (relativePath === '' || relativePath.startsWith('..') || isAbsolute(relativePath)) {
+        throw new Error(`Refusing to remove ${installPath}: outside of the project`);
+      }
+
+      await rm(path, { recursive: true, force: true });
+      removed.push(path);
+    }
+
+    this.manifest.remove(entry.id);
+    await this.manifest.save();
+
+    return removed;
+  }
+}
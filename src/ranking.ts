@@ -0,0 +1,61 @@
+import type { MatchedSkill, SkillPriority } from './types.js';
+
+/**
+ * Minimum score of the skills selected by default, unless configured otherwise
+ */
+export const DEFAULT_PRESELECT_THRESHOLD = 60;
+
+const BASE_SCORE = 40;
+
+const PRIORITY_SCORES: Record<SkillPriority, number> = {
+  critical: 30,
+  high: 15,
+  normal: 0,
+  low: -15,
+};
+
+/**
+ * Score every match and sort them, most relevant first (index order breaks ties)
+ */
+export function rankMatches(matches: MatchedSkill[]): MatchedSkill[] {
+  return matches
+    .map((match) => ({ ...match, score: scoreMatch(match) }))
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Relevance of a match from 0 to 100. Priority, version-specific ranges, extra matched
+ * libraries and files, and configuration includes raise it; being superseded lowers it.
+ */
+export function scoreMatch(match: MatchedSkill): number {
+  const { libraries, files, included } = match.explanation;
+  let score = BASE_SCORE + PRIORITY_SCORES[match.skill.priority ?? 'normal'];
+
+  // The same library matched in several workspaces counts once
+  const distinct = libraries.filter((library, i) =>
+    libraries.findIndex((other) => other.name === library.name && other.range === library.range) === i
+  );
+  const libraryScore = distinct.reduce((sum, library) => sum + (library.kind === 'version' ? 20 : 10), 0);
+  score += Math.min(libraryScore, 30);
+  score += Math.min(files.length * 10, 20);
+  if (included) score += 20;
+  if (match.supersededBy) score -= 50;
+
+  return Math.max(0, Math.min(100, score));
+}
+
+/**
+ * Short description of what matched, e.g. "react@19.0.0 (>=19.0.0), app.json"
+ */
+export function describeMatch(match: MatchedSkill): string {
+  const { libraries, files, included } = match.explanation;
+  const reasons = [
+    ...libraries.map((library) =>
+      `${library.name}@${library.version} (${library.kind === 'wildcard' ? 'any version' : library.range})`
+    ),
+    ...files,
+    ...(included ? ['included by configuration'] : []),
+  ];
+  // Skills pulled in by `requires` have no match of their own
+  return reasons.length > 0 ? [...new Set(reasons)].join(', ') : `${match.dependency.name}@${match.dependency.version}`;
+}
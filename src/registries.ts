@@ -0,0 +1,108 @@
+import { resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { SkillDownloader } from './downloader.js';
+import type { CacheMetadata } from './cache.js';
+import { DEFAULT_REGISTRY, type Config, type RegistryConfig, type Skill, type SkillsIndex } from './types.js';
+
+/**
+ * Turn a registry location into a URL: local directories become file:// URLs
+ */
+export function normalizeRegistryUrl(location: string): string {
+  const url = /^[a-z][a-z0-9+.-]*:\/\//i.test(location)
+    ? location
+    : pathToFileURL(resolve(location)).href;
+  return url.replace(/\/+$/, '');
+}
+
+/**
+ * Parse a `--registry` value: a URL or directory, optionally named as `name=location`
+ */
+export function parseRegistryOption(value: string): RegistryConfig {
+  const named = value.match(/^([\w-]+)=(.+)$/);
+  return named ? { name: named[1], url: named[2] } : { url: value };
+}
+
+/**
+ * Registries given on the command line, highest priority first.
+ * The public registry comes last unless it is turned off.
+ */
+export function resolveRegistries(registries: RegistryConfig[], includeDefault = true): RegistryConfig[] {
+  const resolved = [...registries];
+  if (includeDefault && !resolved.some((registry) => normalizeRegistryUrl(registry.url) === DEFAULT_REGISTRY.url)) {
+    resolved.push(DEFAULT_REGISTRY);
+  }
+  return resolved;
+}
+
+/**
+ * The configured registries, highest priority first, with normalized URLs
+ */
+export function getRegistries(config: Config): RegistryConfig[] {
+  return (config.registries ?? [{ url: config.registryUrl }]).map((registry) => ({
+    ...registry,
+    url: normalizeRegistryUrl(registry.url),
+  }));
+}
+
+/**
+ * Name shown for the registry at a URL (the URL itself for unnamed registries)
+ */
+export function getRegistryName(url: string, registries: RegistryConfig[]): string {
+  return registries.find((registry) => registry.url === url)?.name ?? url;
+}
+
+/**
+ * Fetches several registries and merges their indexes by priority
+ */
+export class RegistryLoader {
+  private registries: RegistryConfig[];
+  private downloaders: SkillDownloader[] = [];
+
+  constructor(private config: Config) {
+    this.registries = getRegistries(config);
+  }
+
+  /**
+   * Fetch every registry and merge their skills.
+   * On an id collision the registry listed first wins; a skill can also replace
+   * skills with other ids from lower-priority registries through `overrides`.
+   */
+  async fetchIndex(): Promise<SkillsIndex> {
+    const indexes: SkillsIndex[] = [];
+    for (const registry of this.registries) {
+      const downloader = new SkillDownloader({ ...this.config, registryUrl: registry.url });
+      this.downloaders.push(downloader);
+      try {
+        indexes.push(await downloader.fetchIndex());
+      } catch (error) {
+        throw new Error(
+          `Registry "${registry.name ?? registry.url}": ${error instanceof Error ? error.message : error}`
+        );
+      }
+    }
+
+    const merged: { skill: Skill; priority: number }[] = [];
+    indexes.forEach((index, priority) => {
+      for (const skill of index.skills) {
+        if (!merged.some((entry) => entry.skill.id === skill.id)) {
+          merged.push({ skill: { ...skill, registry: this.registries[priority].url }, priority });
+        }
+      }
+    });
+
+    const skills = merged
+      .filter(({ skill, priority }) =>
+        !merged.some((other) => other.priority < priority && other.skill.overrides?.includes(skill.id))
+      )
+      .map(({ skill }) => skill);
+
+    return { version: indexes[0]?.version ?? '1.0.0', skills };
+  }
+
+  /**
+   * Cached responses served without revalidation, across all registries
+   */
+  getStaleResponses(): CacheMetadata[] {
+    return this.downloaders.flatMap((downloader) => downloader.getStaleResponses());
+  }
+}
@@ -0,0 +1,107 @@
+import type { MatchedSkill, SkillsIndex } from './types.js';
+
+/**
+ * Apply skill relationships to matched skills:
+ * pull in the skills they require (from the whole index) and mark superseded ones
+ */
+export function resolveRelationships(matched: MatchedSkill[], index: SkillsIndex): MatchedSkill[] {
+  const resolved = matched.map((match) => ({ ...match }));
+
+  // Required skills, transitively; they share the trigger of the skill needing them
+  for (let i = 0; i < resolved.length; i++) {
+    const match = resolved[i];
+    for (const id of match.skill.requires ?? []) {
+      const existing = resolved.find((m) => m.skill.id === id);
+      if (existing) {
+        if (existing.requiredBy) existing.requiredBy = [...new Set([...existing.requiredBy, match.skill.id])];
+        continue;
+      }
+      const skill = index.skills.find((s) => s.id === id);
+      if (skill) {
+        resolved.push({
+          skill,
+          dependency: match.dependency,
+          score: 0,
+          explanation: { libraries: [], files: [], included: false },
+          requiredBy: [match.skill.id],
+        });
+      }
+    }
+  }
+
+  for (const match of resolved) {
+    for (const id of match.skill.supersedes ?? []) {
+      const superseded = resolved.find((m) => m.skill.id === id);
+      if (superseded && !superseded.supersededBy) {
+        superseded.supersededBy = match.skill.id;
+      }
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Skills to select by default: everything that is not superseded and scores at least
+ * `threshold`, plus what that requires
+ */
+export function getDefaultSelection(matches: MatchedSkill[], threshold = 0): MatchedSkill[] {
+  return addRequiredSkills(
+    matches.filter((match) => !match.supersededBy && match.score >= threshold),
+    matches
+  );
+}
+
+/**
+ * Add the skills required by a selection (transitively), taken from all matched skills
+ */
+export function addRequiredSkills(selected: MatchedSkill[], matches: MatchedSkill[]): MatchedSkill[] {
+  const result = [...selected];
+  for (let i = 0; i < result.length; i++) {
+    for (const id of result[i].skill.requires ?? []) {
+      const required = matches.find((match) => match.skill.id === id);
+      if (required && !result.includes(required)) {
+        result.push(required);
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Describe the conflicting pairs in a selection, e.g. "A conflicts with B"
+ */
+export function findConflicts(selected: MatchedSkill[]): string[] {
+  const conflicts: string[] = [];
+  for (const [position, match] of selected.entries()) {
+    for (const other of selected.slice(position + 1)) {
+      if (match.skill.conflictsWith?.includes(other.skill.id) || other.skill.conflictsWith?.includes(match.skill.id)) {
+        conflicts.push(`${match.skill.name} conflicts with ${other.skill.name}`);
+      }
+    }
+  }
+  return conflicts;
+}
+
+/**
+ * Why a skill is (de)selected by default, shown next to it
+ */
+export function describeRelationships(match: MatchedSkill, matches: MatchedSkill[]): string | null {
+  const name = (id: string) => matches.find((m) => m.skill.id === id)?.skill.name ?? id;
+  const reasons: string[] = [];
+
+  if (match.supersededBy) {
+    reasons.push(`superseded by ${name(match.supersededBy)}`);
+  }
+  if (match.requiredBy) {
+    reasons.push(`required by ${match.requiredBy.map(name).join(', ')}`);
+  }
+  const conflicts = matches.filter((other) =>
+    match.skill.conflictsWith?.includes(other.skill.id) || other.skill.conflictsWith?.includes(match.skill.id)
+  );
+  if (conflicts.length > 0) {
+    reasons.push(`conflicts with ${conflicts.map((other) => other.skill.name).join(', ')}`);
+  }
+
+  return reasons.length > 0 ? reasons.join('; ') : null;
+}
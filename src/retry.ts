@@ -0,0 +1,59 @@
+import { setTimeout as delay } from 'node:timers/promises';
+
+/**
+ * How long and how often a request is attempted
+ */
+export interface RetryOptions {
+  /** Time allowed for each attempt, in milliseconds */
+  timeout: number;
+  /** Attempts after the first one */
+  retries: number;
+  /** Wait before the first retry, in milliseconds; doubled for each next one */
+  backoff: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  timeout: 15_000,
+  retries: 2,
+  backoff: 500,
+};
+
+/**
+ * A response and its body, read in full
+ */
+export interface FetchedResponse {
+  response: Response;
+  body: Buffer;
+}
+
+/**
+ * Fetch a URL, retrying network errors, timeouts and 5xx responses with exponential backoff.
+ * The body is read within each attempt, so errors while reading it are retried too.
+ * Other responses are returned as they are, so are the ones left after the last retry.
+ */
+export async function fetchWithRetry(
+  url: string,
+  init: RequestInit = {},
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS,
+  wait: (ms: number) => Promise<unknown> = delay
+): Promise<FetchedResponse> {
+  for (let attempt = 0; ; attempt++) {
+    const retry = attempt < options.retries;
+    try {
+      const response = await fetch(url, { ...init, signal: AbortSignal.timeout(options.timeout) });
+      if (response.status < 500 || !retry) {
+        return { response, body: Buffer.from(await response.arrayBuffer()) };
+      }
+      await response.body?.cancel();
+    } catch (error) {
+      if (!retry) {
+        throw isTimeout(error) ? new Error(`timed out after ${options.timeout / 1000}s`) : error;
+      }
+    }
+    await wait(options.backoff * 2 ** attempt);
+  }
+}
+
+function isTimeout(error: unknown): boolean {
+  return error instanceof Error && error.name === 'TimeoutError';
+}
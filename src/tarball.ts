@@ -0,0 +1,49 @@
+import { gunzipSync } from 'node:zlib';
+
+const BLOCK_SIZE = 512;
+
+/**
+ * Extract the regular files of a tar archive (optionally gzipped), keyed by path
+ */
+export function extractTarball(archive: Buffer): Map<string, Buffer> {
+  const data = archive[0] === 0x1f && archive[1] === 0x8b ? gunzipSync(archive) : archive;
+  const files = new Map<string, Buffer>();
+
+  let offset = 0;
+  let longName: string | null = null;
+
+  while (offset + BLOCK_SIZE <= data.length) {
+    const header = data.subarray(offset, offset + BLOCK_SIZE);
+    if (header.every((byte) => byte === 0)) {
+      break;
+    }
+
+    const size = parseInt(readString(header, 124, 12).trim() || '0', 8);
+    const type = String.fromCharCode(header[156] || 0x30);
+    const prefix = readString(header, 345, 155);
+    const name = longName ?? (prefix ? `${prefix}/${readString(header, 0, 100)}` : readString(header, 0, 100));
+    const body = data.subarray(offset + BLOCK_SIZE, offset + BLOCK_SIZE + size);
+    longName = null;
+
+    if (type === 'L') {
+      // GNU long name for the next entry
+      longName = readString(body, 0, body.length);
+    } else if (type === 'x') {
+      // PAX extended header: "<length> path=<name>\n"
+      const path = body.toString('utf-8').match(/^\d+ path=(.*)$/m);
+      if (path) longName = path[1];
+    } else if (type === '0' || type === '7') {
+      files.set(name.replace(/^\.\//, ''), Buffer.from(body));
+    }
+
+    offset += BLOCK_SIZE + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+  }
+
+  return files;
+}
+
+function readString(buffer: Buffer, start: number, length: number): string {
+  const slice = buffer.subarray(start, start + length);
+  const end = slice.indexOf(0);
+  return slice.subarray(0, end === -1 ? slice.length : end).toString('utf-8');
+}
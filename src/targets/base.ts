@@ -0,0 +1,181 @@
+import { access } from 'node:fs/promises';
+import { join } from 'node:path';
+import { parseFrontmatter, stripFrontmatter, type FrontmatterDocument } from '../frontmatter.js';
+import { SKILL_MAIN_FILE, type Skill, type SkillFiles, type TargetType } from '../types.js';
+
+/**
+ * Abstract base class for coding agent targets.
+ * An adapter knows how to detect an agent in a project, where its skills live
+ * and how skill content must be laid out and transformed for it.
+ */
+export abstract class TargetAdapter {
+  /**
+   * Identifier of the target (e.g., 'claude', 'cursor', 'copilot')
+   */
+  abstract readonly type: TargetType;
+
+  /**
+   * Directory holding the agent's skills, relative to the project root
+   */
+  abstract readonly directory: string;
+
+  /**
+   * Files or directories whose presence means the agent is used in the project
+   */
+  abstract readonly markers: string[];
+
+  /**
+   * Directory holding the agent's user-wide skills, relative to the home directory.
+   * Unset for agents that only read skills from the project.
+   */
+  readonly globalDirectory?: string;
+
+  /**
+   * Install the target even when the agent is not detected
+   */
+  readonly alwaysInstall: boolean = false;
+
+  /**
+   * Name shown to the user
+   */
+  get displayName(): string {
+    return `${this.directory}/`;
+  }
+
+  /**
+   * Check if the agent is used in the given project directory
+   */
+  async detect(directory: string): Promise<boolean> {
+    for (const marker of this.markers) {
+      try {
+        await access(join(directory, marker));
+        return true;
+      } catch {
+        // Try the next marker
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Install location of a skill (folder or file), relative to the target directory
+   */
+  abstract getInstallPath(skill: Skill): string;
+
+  /**
+   * Path of the file holding the skill's main content, relative to the target directory
+   */
+  abstract getMainFile(skill: Skill): string;
+
+  /**
+   * Folder holding the supporting files of a skill, relative to the target directory.
+   * Only set for targets where the skill itself is a single file.
+   */
+  getAssetsPath(_skill: Skill): string | undefined {
+    return undefined;
+  }
+
+  /**
+   * Map the downloaded skill files to the files written for this agent,
+   * keyed by path relative to the target directory
+   */
+  getFiles(skill: Skill, files: SkillFiles): SkillFiles {
+    const output: SkillFiles = new Map();
+    output.set(this.getMainFile(skill), this.transform(skill, String(files.get(SKILL_MAIN_FILE) ?? '')));
+
+    const assetsPath = this.getAssetsPath(skill) ?? this.getInstallPath(skill);
+    for (const [path, content] of files) {
+      if (path !== SKILL_MAIN_FILE) {
+        output.set(`${assetsPath}/${path}`, content);
+      }
+    }
+
+    return output;
+  }
+
+  /**
+   * Transform the skill's main content for this agent (unchanged by default)
+   */
+  protected transform(_skill: Skill, content: string): string {
+    return content;
+  }
+
+  /**
+   * Split skill content into frontmatter and body.
+   * Unparseable frontmatter is dropped, so adapters writing their own never end up with two blocks.
+   */
+  protected readFrontmatter(content: string): FrontmatterDocument {
+    try {
+      return parseFrontmatter(content);
+    } catch {
+      return { data: {}, body: stripFrontmatter(content) };
+    }
+  }
+}
+
+/**
+ * Agents that read skills as folders containing a SKILL.md file
+ */
+export abstract class SkillFolderAdapter extends TargetAdapter {
+  getInstallPath(skill: Skill): string {
+    return skill.id;
+  }
+
+  getMainFile(skill: Skill): string {
+    return `${skill.id}/${SKILL_MAIN_FILE}`;
+  }
+}
+
+/**
+ * Agents that read each skill as a single rule file in a rules directory
+ */
+export abstract class RuleFileAdapter extends TargetAdapter {
+  /**
+   * File extension of rule files, including the dot
+   */
+  abstract readonly extension: string;
+
+  getInstallPath(skill: Skill): string {
+    return `${skill.id}${this.extension}`;
+  }
+
+  getMainFile(skill: Skill): string {
+    return this.getInstallPath(skill);
+  }
+
+  /**
+   * Supporting files go in a folder named after the skill, next to the rule file
+   */
+  getAssetsPath(skill: Skill): string {
+    return skill.id;
+  }
+}
+
+/**
+ * Registry of available target adapters
+ */
+export class TargetRegistry {
+  private adapters: TargetAdapter[] = [];
+
+  /**
+   * Register a new adapter, replacing any adapter of the same type
+   */
+  register(adapter: TargetAdapter): void {
+    this.adapters = this.adapters.filter((a) => a.type !== adapter.type);
+    this.adapters.push(adapter);
+  }
+
+  /**
+   * Find the adapter for a target type
+   */
+  get(type: TargetType): TargetAdapter | undefined {
+    return this.adapters.find((adapter) => adapter.type === type);
+  }
+
+  /**
+   * Get all registered adapters
+   */
+  getAdapters(): TargetAdapter[] {
+    return [...this.adapters];
+  }
+}
@@ -0,0 +1,13 @@
+import { SkillFolderAdapter } from './base.js';
+
+/**
+ * Claude Code skills: .claude/skills/{id}/SKILL.md, in the project or in ~/.claude/skills
+ */
+export class ClaudeAdapter extends SkillFolderAdapter {
+  readonly type = 'claude';
+  readonly directory = '.claude/skills';
+  readonly markers = ['.claude', 'CLAUDE.md'];
+  readonly globalDirectory = '.claude/skills';
+  // Project-specific skills are always installed for Claude
+  readonly alwaysInstall = true;
+}
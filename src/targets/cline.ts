@@ -0,0 +1,16 @@
+import { RuleFileAdapter } from './base.js';
+import type { Skill } from '../types.js';
+
+/**
+ * Cline rules: .clinerules/{id}.md (plain markdown, always active)
+ */
+export class ClineAdapter extends RuleFileAdapter {
+  readonly type = 'cline';
+  readonly directory = '.clinerules';
+  readonly extension = '.md';
+  readonly markers = ['.clinerules'];
+
+  protected transform(_skill: Skill, content: string): string {
+    return this.readFrontmatter(content).body.replace(/^\s+/, '');
+  }
+}
@@ -0,0 +1,10 @@
+import { SkillFolderAdapter } from './base.js';
+
+/**
+ * OpenAI Codex skills: .codex/skills/{id}/SKILL.md, detected from AGENTS.md
+ */
+export class CodexAdapter extends SkillFolderAdapter {
+  readonly type = 'codex';
+  readonly directory = '.codex/skills';
+  readonly markers = ['.codex', 'AGENTS.md'];
+}
@@ -0,0 +1,25 @@
+import { RuleFileAdapter } from './base.js';
+import { stringifyFrontmatter } from '../frontmatter.js';
+import type { Skill } from '../types.js';
+
+/**
+ * GitHub Copilot custom instructions: .github/instructions/{id}.instructions.md
+ */
+export class CopilotAdapter extends RuleFileAdapter {
+  readonly type = 'copilot';
+  readonly directory = '.github/instructions';
+  readonly extension = '.instructions.md';
+  readonly markers = ['.github/copilot-instructions.md', '.github/instructions'];
+
+  protected transform(skill: Skill, content: string): string {
+    const { data, body } = this.readFrontmatter(content);
+    const metadata = skill.targets?.copilot ?? {};
+    return stringifyFrontmatter(
+      {
+        applyTo: metadata.globs?.join(',') ?? '**',
+        description: metadata.description ?? String(data.description ?? skill.description),
+      },
+      body
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { SkillFolderAdapter, RuleFileAdapter } from './base.js';
+import { stringifyFrontmatter } from '../frontmatter.js';
+import type { Skill } from '../types.js';
+
+/**
+ * Cursor skills: .cursor/skills/{id}/SKILL.md, in the project or in ~/.cursor/skills
+ */
+export class CursorAdapter extends SkillFolderAdapter {
+  readonly type = 'cursor';
+  readonly directory = '.cursor/skills';
+  readonly markers = ['.cursor'];
+  readonly globalDirectory = '.cursor/skills';
+
+  /**
+   * @param active Whether Cursor skills are installed as skill folders (cursorMode: 'skills')
+   */
+  constructor(private active = true) {
+    super();
+  }
+
+  async detect(directory: string): Promise<boolean> {
+    return this.active && super.detect(directory);
+  }
+}
+
+/**
+ * Native Cursor rules: .cursor/rules/{id}.mdc, scoped with `globs` frontmatter
+ */
+export class CursorRulesAdapter extends RuleFileAdapter {
+  readonly type = 'cursor-rules';
+  readonly directory = '.cursor/rules';
+  readonly extension = '.mdc';
+  readonly markers = ['.cursor'];
+
+  /**
+   * @param active Whether Cursor skills are installed as rules (cursorMode: 'rules')
+   */
+  constructor(private active = false) {
+    super();
+  }
+
+  async detect(directory: string): Promise<boolean> {
+    return this.active && super.detect(directory);
+  }
+
+  protected transform(skill: Skill, content: string): string {
+    const { data, body } = this.readFrontmatter(content);
+    const metadata = skill.targets?.cursor ?? {};
+
+    const globs = metadata.globs ?? toList(data.globs);
+    return stringifyFrontmatter(
+      {
+        description: metadata.description ?? String(data.description ?? skill.description),
+        globs: globs.length > 0 ? globs.join(',') : undefined,
+        alwaysApply: metadata.alwaysApply ?? data.alwaysApply === true,
+      },
+      body,
+      ['globs']
+    );
+  }
+}
+
+/**
+ * Cursor accepts globs as a list or a comma-separated string
+ */
+function toList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value === 'string' && value.trim() !== '') {
+    return value.split(',').map((glob) => glob.trim());
+  }
+  return [];
+}
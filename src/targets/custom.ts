@@ -0,0 +1,46 @@
+import { TargetAdapter } from './base.js';
+import { normalizeSkillPath } from '../paths.js';
+import type { CustomTargetConfig, Skill } from '../types.js';
+
+/**
+ * A target described in configuration, for agents without a built-in adapter
+ */
+export class CustomAdapter extends TargetAdapter {
+  readonly type: string;
+  readonly directory: string;
+  readonly markers: string[];
+  readonly alwaysInstall: boolean;
+
+  constructor(private definition: CustomTargetConfig) {
+    super();
+    this.type = definition.type;
+    // Skills are written under it: never let a configuration point outside the project
+    try {
+      this.directory = normalizeSkillPath(definition.directory);
+    } catch {
+      throw new Error(`Custom target "${definition.type}": "directory" must be a relative path inside the project`);
+    }
+    this.markers = definition.detect ?? [this.directory];
+    this.alwaysInstall = definition.alwaysInstall ?? false;
+  }
+
+  getInstallPath(skill: Skill): string {
+    return this.definition.layout === 'file'
+      ? `${skill.id}${this.definition.extension ?? '.md'}`
+      : skill.id;
+  }
+
+  getMainFile(skill: Skill): string {
+    return this.definition.layout === 'file'
+      ? this.getInstallPath(skill)
+      : `${skill.id}/${this.definition.fileName ?? 'SKILL.md'}`;
+  }
+
+  getAssetsPath(skill: Skill): string | undefined {
+    return this.definition.layout === 'file' ? skill.id : undefined;
+  }
+
+  protected transform(_skill: Skill, content: string): string {
+    return this.definition.frontmatter === 'strip' ? this.readFrontmatter(content).body : content;
+  }
+}
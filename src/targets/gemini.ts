@@ -0,0 +1,10 @@
+import { SkillFolderAdapter } from './base.js';
+
+/**
+ * Gemini CLI skills: .gemini/skills/{id}/SKILL.md
+ */
+export class GeminiAdapter extends SkillFolderAdapter {
+  readonly type = 'gemini';
+  readonly directory = '.gemini/skills';
+  readonly markers = ['.gemini', 'GEMINI.md'];
+}
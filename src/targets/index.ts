@@ -0,0 +1,35 @@
+import { TargetRegistry } from './base.js';
+import { ClaudeAdapter } from './claude.js';
+import { CursorAdapter, CursorRulesAdapter } from './cursor.js';
+import { CopilotAdapter } from './copilot.js';
+import { WindsurfAdapter } from './windsurf.js';
+import { CodexAdapter } from './codex.js';
+import { GeminiAdapter } from './gemini.js';
+import { ClineAdapter } from './cline.js';
+import { CustomAdapter } from './custom.js';
+import type { Config } from '../types.js';
+
+/**
+ * Create a registry with the built-in adapters and any custom targets from configuration
+ */
+export function createTargetRegistry(
+  config: Pick<Config, 'customTargets' | 'cursorMode'> = {}
+): TargetRegistry {
+  const cursorRules = config.cursorMode === 'rules';
+
+  const registry = new TargetRegistry();
+  registry.register(new CursorAdapter(!cursorRules));
+  registry.register(new CursorRulesAdapter(cursorRules));
+  registry.register(new ClaudeAdapter());
+  registry.register(new CopilotAdapter());
+  registry.register(new WindsurfAdapter());
+  registry.register(new CodexAdapter());
+  registry.register(new GeminiAdapter());
+  registry.register(new ClineAdapter());
+
+  for (const definition of config.customTargets ?? []) {
+    registry.register(new CustomAdapter(definition));
+  }
+
+  return registry;
+}
@@ -0,0 +1,28 @@
+import { RuleFileAdapter } from './base.js';
+import { stringifyFrontmatter } from '../frontmatter.js';
+import type { Skill } from '../types.js';
+
+/**
+ * Windsurf workspace rules: .windsurf/rules/{id}.md
+ */
+export class WindsurfAdapter extends RuleFileAdapter {
+  readonly type = 'windsurf';
+  readonly directory = '.windsurf/rules';
+  readonly extension = '.md';
+  readonly markers = ['.windsurf', '.windsurfrules'];
+
+  protected transform(skill: Skill, content: string): string {
+    const { data, body } = this.readFrontmatter(content);
+    const metadata = skill.targets?.windsurf ?? {};
+    const alwaysApply = metadata.alwaysApply ?? data.alwaysApply === true;
+
+    return stringifyFrontmatter(
+      {
+        trigger: alwaysApply ? 'always_on' : metadata.globs ? 'glob' : 'model_decision',
+        description: metadata.description ?? String(data.description ?? skill.description),
+        globs: metadata.globs?.join(','),
+      },
+      body
+    );
+  }
+}
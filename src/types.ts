@@ -5,6 +5,18 @@ export interface Dependency {
   name: string;
   version: string;
   isDev: boolean;
+  /** Path of the workspace package that declares it, relative to the project root (undefined for the root package) */
+  workspace?: string;
+}
+
+/**
+ * A member package of a monorepo (npm/yarn/pnpm workspaces)
+ */
+export interface Workspace {
+  /** Package name, or its path when the package is unnamed */
+  name: string;
+  /** Path relative to the project root */
+  path: string;
 }
 
 /**
@@ -13,26 +25,162 @@ export interface Dependency {
 export interface MatchingLibrary {
   name: string;
   versionRange: string;
+  /** Only match when the library is a devDependency */
+  devOnly?: boolean;
+  /** Only match when the library is a regular dependency */
+  prodOnly?: boolean;
+}
+
+/**
+ * A dependency the project must have (see `Skill.match`)
+ */
+export interface LibraryCondition {
+  library: string;
+  /** Semver range (default: any version) */
+  versionRange?: string;
+  devOnly?: boolean;
+  prodOnly?: boolean;
+}
+
+/**
+ * A file the project must contain: a glob relative to the project root or to a
+ * workspace package, e.g. "app.json" or "next.config.*"
+ */
+export interface FileCondition {
+  file: string;
 }
 
+/**
+ * Conditions combined with `allOf` (all hold), `anyOf` (at least one holds)
+ * and `noneOf` (none holds). Every given list must be satisfied.
+ */
+export interface MatchGroup {
+  allOf?: MatchCondition[];
+  anyOf?: MatchCondition[];
+  noneOf?: MatchCondition[];
+}
+
+export type MatchCondition = LibraryCondition | FileCondition | MatchGroup;
+
+/**
+ * Per-target options set by registry authors (e.g. under `targets.cursor`)
+ */
+export interface SkillTargetMetadata {
+  /** File globs the skill applies to, e.g. ["**\/*.test.ts", "**\/*.test.tsx"] */
+  globs?: string[];
+  /** Always include the skill in the agent's context */
+  alwaysApply?: boolean;
+  /** Description the agent uses to decide when to apply the skill */
+  description?: string;
+}
+
+/**
+ * A file of a multi-file skill package
+ */
+export interface SkillFile {
+  /** Path inside the skill folder, e.g. "references/lists.md" */
+  path: string;
+  /** Where to download it from. Defaults to `path` resolved against the skill's main file */
+  url?: string;
+  /** Subresource Integrity hash of the file, e.g. "sha256-<base64>" */
+  integrity?: string;
+}
+
+/**
+ * Name of a skill's main file inside its folder
+ */
+export const SKILL_MAIN_FILE = 'SKILL.md';
+
+/**
+ * Downloaded skill content, keyed by path inside the skill folder.
+ * The main file is stored under SKILL_MAIN_FILE; binary assets are Buffers.
+ */
+export type SkillFiles = Map<string, string | Buffer>;
+
 /**
  * Represents a skill in the registry.
  * Skills can be sourced from a direct URL (`path`) or from the skills.sh ecosystem (`skillsShUrl`).
  * For skills.sh, the URL format is: https://skills.sh/{org}/{repo}/{skill}
- * which resolves to: https://raw.githubusercontent.com/{org}/{repo}/main/skills/{skill}/AGENTS.md
+ * which resolves to the first existing file of:
+ * https://raw.githubusercontent.com/{org}/{repo}/main/skills/{skill}/SKILL.md (or AGENTS.md),
+ * then {skill}/SKILL.md and .claude/skills/{skill}/SKILL.md at the repository root
  */
 export interface Skill {
   id: string;
   name: string;
   description: string;
   author: string;
-  matchingLibraries: MatchingLibrary[];
+  /** Shorthand for `match: { anyOf: [...] }`; when both are given, both must hold */
+  matchingLibraries?: MatchingLibrary[];
+  /** When the skill applies to a project */
+  match?: MatchGroup;
   /** Direct URL to the skill content (raw GitHub URL or local path) */
   path?: string;
   /** skills.sh URL, e.g. https://skills.sh/org/repo/skill-name */
   skillsShUrl?: string;
+  /**
+   * Supporting files (references/, scripts/, assets) installed next to the main file.
+   * For skills.sh skills, the pinned files of the skill's folder (written by `pin`).
+   */
+  files?: SkillFile[];
+  /** Local directory (file:// URL or registry-relative path) holding the whole skill folder */
+  directory?: string;
+  /** URL of a .tar.gz archive holding the skill folder */
+  tarball?: string;
+  /** Folder of the skill inside the tarball. A single top-level folder (e.g. "repo-main/") is stripped first */
+  tarballRoot?: string;
+  /** Options for specific targets, keyed by target type */
+  targets?: Partial<Record<TargetType, SkillTargetMetadata>>;
+  /**
+   * Subresource Integrity hash ("sha256-<base64>") of the downloaded source:
+   * the `path` or skills.sh main file, or the `tarball` archive
+   */
+  integrity?: string;
+  /** Ids of skills from lower-priority registries that this entry replaces */
+  overrides?: string[];
+  /** Ids of skills this one makes redundant: they are deselected when both match */
+  supersedes?: string[];
+  /** Ids of skills that contradict this one */
+  conflictsWith?: string[];
+  /** Ids of skills installed along with this one */
+  requires?: string[];
+  /** How important the skill is to projects it matches (default: normal) */
+  priority?: SkillPriority;
+  /** Values to fill into `{{name}}` placeholders of the content, keyed by name */
+  placeholders?: Record<string, SkillPlaceholder>;
+  /** URL of the registry the skill was loaded from (set when indexes are merged) */
+  registry?: string;
+}
+
+/**
+ * A `{{name}}` placeholder of a skill, filled in from the project at install time
+ */
+export interface SkillPlaceholder {
+  /** What the value is, shown when asking for it */
+  description: string;
+  /**
+   * `path` and `directory`: project-relative path; `import`: module specifier, through tsconfig
+   * path aliases when possible; `text`: anything (never detected)
+   */
+  type: PlaceholderType;
+  /** Globs of files (directories for `directory`) tried in order; the first match is the value */
+  detect?: string[];
+  /** Suggested answer when detection finds nothing; used as the value when nobody can be asked */
+  default?: string;
+  /**
+   * Sample value written in the published file instead of `{{name}}`, replaced like the placeholder.
+   * Clients up to 1.0.7 do not fill placeholders and install the sample as it is.
+   */
+  replaces?: string;
 }
 
+export type PlaceholderType = 'path' | 'directory' | 'import' | 'text';
+
+/**
+ * Importance of a skill, weighed into its relevance score
+ */
+export type SkillPriority = 'critical' | 'high' | 'normal' | 'low';
+
 /**
  * The skills registry index format
  */
@@ -41,18 +189,81 @@ export interface SkillsIndex {
   skills: Skill[];
 }
 
+/**
+ * A project library that satisfied a library condition of a skill
+ */
+export interface LibraryMatch {
+  name: string;
+  /** Version installed in the project */
+  version: string;
+  /** Workspace package that depends on it, in a monorepo */
+  workspace?: string;
+  /** Range of the condition it satisfied */
+  range: string;
+  /** `version` when the range targets specific versions, `wildcard` when any version matches */
+  kind: 'version' | 'wildcard';
+}
+
+/**
+ * Why a skill matched a project
+ */
+export interface MatchExplanation {
+  libraries: LibraryMatch[];
+  /** Project files that satisfied file conditions */
+  files: string[];
+  /** The project configuration includes the skill */
+  included: boolean;
+}
+
 /**
  * A skill matched to a project dependency
  */
 export interface MatchedSkill {
   skill: Skill;
   dependency: Dependency;
+  /** Relevance from 0 to 100, higher first */
+  score: number;
+  explanation: MatchExplanation;
+  /** Id of a matched skill that supersedes this one */
+  supersededBy?: string;
+  /** Ids of matched skills that require this one (set when it was pulled in for them) */
+  requiredBy?: string[];
 }
 
 /**
- * Supported target directories for skill installation
+ * Coding agents skills can be installed for.
+ * Built-in adapters exist for the listed agents; custom targets use any other name.
  */
-export type TargetType = 'cursor' | 'claude';
+export type TargetType =
+  | 'cursor'
+  | 'cursor-rules'
+  | 'claude'
+  | 'copilot'
+  | 'windsurf'
+  | 'codex'
+  | 'gemini'
+  | 'cline'
+  | (string & {});
+
+/**
+ * A custom installation target, declared in configuration
+ */
+export interface CustomTargetConfig {
+  type: string;
+  /** Directory holding the agent's skills, relative to the project root */
+  directory: string;
+  /** Files or directories whose presence means the agent is used (defaults to `directory`) */
+  detect?: string[];
+  /** `folder`: {id}/{fileName}; `file`: {id}{extension} */
+  layout: 'folder' | 'file';
+  /** File name inside skill folders (default: SKILL.md) */
+  fileName?: string;
+  /** Extension of single-file skills (default: .md) */
+  extension?: string;
+  /** Keep or strip the skill's frontmatter (default: keep) */
+  frontmatter?: 'keep' | 'strip';
+  alwaysInstall?: boolean;
+}
 
 /**
  * Target directory configuration
@@ -61,6 +272,52 @@ export interface Target {
   type: TargetType;
   path: string;
   detected: boolean;
+  /** User-wide location in the home directory, shared by every project */
+  global?: boolean;
+}
+
+/**
+ * Where an installed skill was written for one target
+ */
+export interface ManifestTarget {
+  type: TargetType;
+  /** Install location (skill folder or file), relative to the project root */
+  path: string;
+  /** Folder holding supporting files, for targets where the skill itself is a single file */
+  assetsPath?: string;
+  /**
+   * Hashes of the upstream content last written to each file (project-relative path),
+   * to tell local edits apart and find the base of three-way merges
+   */
+  files?: Record<string, string>;
+}
+
+/**
+ * A skill installed by help-me-ai, as recorded in the manifest
+ */
+export interface ManifestEntry {
+  id: string;
+  name: string;
+  /** Source fields of the registry entry at install time */
+  source: Pick<Skill, 'path' | 'skillsShUrl' | 'files' | 'directory' | 'tarball' | 'tarballRoot' | 'integrity'>;
+  registry: string;
+  dependency: Pick<Dependency, 'name' | 'version' | 'workspace'>;
+  targets: ManifestTarget[];
+  /** sha256 of the content as downloaded, before any target transformation */
+  hash?: string;
+  /** Values filled into the skill's placeholders, re-applied on update */
+  placeholders?: Record<string, string>;
+  installedAt: string;
+}
+
+/**
+ * The installed-skills manifest (.help-me-ai.lock)
+ */
+export interface Manifest {
+  version: number;
+  skills: ManifestEntry[];
+  /** Ids of matching skills left unselected when installing, which `check` does not require */
+  declined?: string[];
 }
 
 /**
@@ -69,6 +326,21 @@ export interface Target {
 export interface ParseResult {
   dependencies: Dependency[];
   packageManager: string;
+  /** Workspace member packages, empty for single-package projects */
+  workspaces: Workspace[];
+}
+
+/**
+ * A skills registry: an `https://` or `file://` URL, or a local directory
+ */
+export interface RegistryConfig {
+  /** Short name shown next to skills (defaults to the URL) */
+  name?: string;
+  url: string;
+  /** Environment variable holding a bearer token for this registry (HELP_ME_AI_* only) */
+  tokenEnv?: string;
+  /** Extra request headers; `${NAME}` is replaced with the environment variable (HELP_ME_AI_* only) */
+  headers?: Record<string, string>;
 }
 
 /**
@@ -76,13 +348,72 @@ export interface ParseResult {
  */
 export interface Config {
   registryUrl: string;
+  /** Registries merged into one index, highest priority first */
+  registries?: RegistryConfig[];
   defaultBranch: string;
+  /** Base URL of raw GitHub content, used to resolve skills.sh skills */
+  githubRawUrl: string;
+  /** Base URL of the GitHub API, used to list the files of skills.sh skills */
+  githubApiUrl: string;
+  /** `offline` only uses cached responses; `refresh` bypasses the cache */
+  cacheMode?: 'default' | 'offline' | 'refresh';
+  /** Defaults to $XDG_CACHE_HOME/help-me-ai */
+  cacheDirectory?: string;
+  customTargets?: CustomTargetConfig[];
+  /** Install Cursor skills as skill folders or as native .cursor/rules/*.mdc rules */
+  cursorMode?: 'skills' | 'rules';
+  /** Agents to install to, whether detected or not (default: every detected agent) */
+  targets?: TargetType[];
+  /** Skill ids always offered, even when no dependency matches them */
+  include: string[];
+  /** Skill ids never offered */
+  exclude: string[];
+  /** Dependency names left out of matching (`*` matches any characters, e.g. `@types/*`) */
+  ignoreDependencies: string[];
+  /** Agents to install specific skills to, keyed by skill id */
+  skillTargets?: Record<string, TargetType[]>;
+  /** Install remote skills without an `integrity` hash (default: true) */
+  allowUnpinned?: boolean;
+  /** Minimum score of the skills selected by default */
+  preselectThreshold?: number;
+}
+
+/**
+ * Project configuration file (.helpmeairc or help-me-ai.config.json)
+ */
+export interface ProjectConfig {
+  /** Registries as URLs, directories or `{ name, url }`, highest priority first */
+  registries?: (string | RegistryConfig)[];
+  /** Also use the public registry after the ones above (default: true) */
+  defaultRegistry?: boolean;
+  targets?: TargetType[];
+  include?: string[];
+  exclude?: string[];
+  ignoreDependencies?: string[];
+  skillTargets?: Record<string, TargetType[]>;
+  customTargets?: CustomTargetConfig[];
+  cursorMode?: 'skills' | 'rules';
+  allowUnpinned?: boolean;
+  preselectThreshold?: number;
 }
 
+/**
+ * The public BAM registry
+ */
+export const DEFAULT_REGISTRY: RegistryConfig = {
+  name: 'bam',
+  url: 'https://raw.githubusercontent.com/bamlab/helpmeai/main/skills-repo',
+};
+
 /**
  * Default configuration
  */
 export const DEFAULT_CONFIG: Config = {
-  registryUrl: 'https://raw.githubusercontent.com/bamlab/helpmeai/main/skills-repo',
+  registryUrl: DEFAULT_REGISTRY.url,
   defaultBranch: 'main',
+  githubRawUrl: 'https://raw.githubusercontent.com',
+  githubApiUrl: 'https://api.github.com',
+  include: [],
+  exclude: [],
+  ignoreDependencies: [],
 };
@@ -0,0 +1,172 @@
+import { readFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { SkillDownloader } from './downloader.js';
+import { SkillInstaller, resolveChanges } from './installer.js';
+import { hashSkillFiles, type SkillManifest } from './manifest.js';
+import { summarizeDiff } from './diff.js';
+import { fillPlaceholders } from './placeholders.js';
+import { createTargetRegistry } from './targets/index.js';
+import { DEFAULT_CONFIG, type Config, type ManifestEntry, type Skill, type SkillFiles, type SkillsIndex } from './types.js';
+
+/**
+ * The upstream state of an installed skill
+ */
+export type SkillUpdate =
+  | { status: 'unchanged'; entry: ManifestEntry }
+  | {
+      status: 'changed';
+      entry: ManifestEntry;
+      skill: Skill;
+      files: SkillFiles;
+      added: number;
+      removed: number;
+    }
+  | { status: 'skipped'; entry: ManifestEntry; reason: string }
+  | { status: 'error'; entry: ManifestEntry; message: string };
+
+/**
+ * What applying an update did to the files of a skill, over all its targets
+ */
+export interface UpdateResult {
+  /** Files written, merged ones included */
+  written: string[];
+  /** Files edited locally that could not be merged (no stored base) and were left as they are */
+  kept: string[];
+  /** Files merged with conflict markers left to resolve */
+  conflicted: string[];
+}
+
+/**
+ * Re-fetch installed skills from their registry and apply upstream changes
+ */
+export class SkillUpdater {
+  private indexes = new Map<string, Promise<SkillsIndex | null>>();
+  private installer: SkillInstaller;
+
+  /**
+   * @param config Registry credentials and custom targets (registries come from the manifest)
+   */
+  constructor(
+    private manifest: SkillManifest,
+    private config: Config = DEFAULT_CONFIG
+  ) {
+    this.installer = new SkillInstaller(
+      manifest, createTargetRegistry(config), config.cacheDirectory
+    );
+  }
+
+  /**
+   * Fetch every skill recorded in the manifest and compare it with what was installed
+   */
+  async checkForUpdates(): Promise<SkillUpdate[]> {
+    const updates: SkillUpdate[] = [];
+    for (const entry of this.manifest.entries()) {
+      updates.push(await this.checkEntry(entry));
+    }
+    return updates;
+  }
+
+  /**
+   * Write an upstream change to every target the skill was installed to,
+   * merging it into files edited locally
+   */
+  async applyUpdate(update: Extract<SkillUpdate, { status: 'changed' }>): Promise<UpdateResult> {
+    const result: UpdateResult = { written: [], kept: [], conflicted: [] };
+
+    for (const target of update.entry.targets) {
+      const planned = await this.installer.planSkill(
+        update.skill,
+        update.files,
+        {
+          type: target.type,
+          path: dirname(join(this.manifest.directory, target.path)),
+          detected: true,
+        },
+        {
+          dependency: { ...update.entry.dependency, isDev: false },
+          registryUrl: update.entry.registry,
+          placeholders: update.entry.placeholders,
+        }
+      );
+      const [plan] = resolveChanges([planned], () => 'merge');
+      result.written.push(...await this.installer.applyPlan(plan));
+      for (const change of plan.changes) {
+        if (change.modified && change.action === 'skip') result.kept.push(change.path);
+        if (change.conflicts) result.conflicted.push(change.path);
+      }
+    }
+
+    return result;
+  }
+
+  private async checkEntry(entry: ManifestEntry): Promise<SkillUpdate> {
+    if (entry.targets.length === 0) {
+      return { status: 'skipped', entry, reason: 'no recorded install location' };
+    }
+
+    try {
+      const downloader = new SkillDownloader({ ...this.config, registryUrl: entry.registry });
+      const skill = await this.findSkill(entry, downloader);
+      const files = await downloader.fetchSkillContent(skill);
+
+      if (hashSkillFiles(files) === entry.hash) {
+        return { status: 'unchanged', entry };
+      }
+
+      const { current, next } = await this.renderForFirstTarget(entry, skill, files);
+      const { added, removed } = summarizeDiff(current, next);
+      return { status: 'changed', entry, skill, files, added, removed };
+    } catch (error) {
+      return { status: 'error', entry, message: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * Look the skill up in its registry, so that moved sources are followed.
+   * Falls back to the source recorded in the manifest when it left the registry.
+   */
+  private async findSkill(entry: ManifestEntry, downloader: SkillDownloader): Promise<Skill> {
+    if (!this.indexes.has(entry.registry)) {
+      this.indexes.set(entry.registry, downloader.fetchIndex().catch(() => null));
+    }
+    const index = await this.indexes.get(entry.registry);
+    const skill = index?.skills.find((s) => s.id === entry.id);
+    if (skill) {
+      return skill;
+    }
+
+    return {
+      id: entry.id,
+      name: entry.name,
+      description: '',
+      author: '',
+      matchingLibraries: [],
+      ...entry.source,
+    };
+  }
+
+  /**
+   * Read the installed main file of the first target, and render the new content the same way,
+   * with the saved placeholder values
+   */
+  private async renderForFirstTarget(
+    entry: ManifestEntry,
+    skill: Skill,
+    files: SkillFiles
+  ): Promise<{ current: string; next: string }> {
+    const target = entry.targets[0];
+    const adapter = this.installer.getAdapter(target.type);
+    const targetDirectory = dirname(join(this.manifest.directory, target.path));
+    const mainFile = adapter.getMainFile(skill);
+
+    let current = '';
+    try {
+      current = await readFile(join(targetDirectory, mainFile), 'utf-8');
+    } catch {
+      // Deleted locally — everything is new
+    }
+
+    const filled = fillPlaceholders(skill, files, entry.placeholders ?? {});
+    return { current, next: String(adapter.getFiles(skill, filled).get(mainFile) ?? '') };
+  }
+}
@@ -0,0 +1,361 @@
+import { validRange } from 'semver';
+import { SkillDownloader, parseSkillsShUrl } from './downloader.js';
+import { parseFrontmatter } from './frontmatter.js';
+import { normalizeSkillPath } from './paths.js';
+import { findPlaceholders } from './placeholders.js';
+import { SKILL_MAIN_FILE, type Config, type PlaceholderType, type Skill, type SkillPriority } from './types.js';
+
+export type ValidationLevel = 'error' | 'warning';
+
+/**
+ * A problem found in a registry index
+ */
+export interface ValidationFinding {
+  level: ValidationLevel;
+  /** Skill the finding is about, when it is about one */
+  skillId?: string;
+  message: string;
+}
+
+const SOURCE_FIELDS = ['path', 'skillsShUrl', 'tarball', 'directory'] as const;
+const PLACEHOLDER_TYPES: PlaceholderType[] = ['path', 'directory', 'import', 'text'];
+const PRIORITIES: SkillPriority[] = ['critical', 'high', 'normal', 'low'];
+const INTEGRITY_PATTERN = /^(sha256|sha384|sha512)-[A-Za-z0-9+/]+={0,2}$/;
+
+/**
+ * Check a registry index for mistakes before it is published
+ */
+export class RegistryValidator {
+  constructor(private config: Config) {}
+
+  /**
+   * Validate the index of the configured registry: its shape, every entry,
+   * and that every skill can be fetched and has valid frontmatter.
+   * Throws when the index itself cannot be fetched or parsed.
+   */
+  async validate(): Promise<ValidationFinding[]> {
+    const downloader = new SkillDownloader(this.config);
+    const index: unknown = await downloader.fetchIndex();
+
+    if (!isObject(index) || !Array.isArray(index.skills)) {
+      return [{ level: 'error', message: 'index.json must be an object with a "skills" array' }];
+    }
+
+    const findings: ValidationFinding[] = [];
+    if (typeof index.version !== 'string') {
+      findings.push({ level: 'warning', message: 'index.json has no "version" string' });
+    }
+
+    const ids = new Set(index.skills.map((entry) => (isObject(entry) ? entry.id : undefined)));
+    const seen = new Set<string>();
+    for (const [position, entry] of index.skills.entries()) {
+      const skillId = isObject(entry) && typeof entry.id === 'string' ? entry.id : `skills[${position}]`;
+      const report = (level: ValidationLevel, message: string) => findings.push({ level, skillId, message });
+
+      if (!isObject(entry)) {
+        report('error', 'entry must be an object');
+        continue;
+      }
+
+      if (typeof entry.id !== 'string' || entry.id === '') {
+        report('error', 'missing "id"');
+      } else if (seen.has(entry.id)) {
+        report('error', `duplicate id "${entry.id}"`);
+      } else {
+        seen.add(entry.id);
+        if (!/^[a-z0-9][a-z0-9-]*$/.test(entry.id)) {
+          report('warning', 'id should be kebab-case (it becomes a folder name)');
+        }
+      }
+
+      for (const field of ['name', 'description', 'author']) {
+        if (typeof entry[field] !== 'string' || entry[field] === '') {
+          report('error', `missing "${field}"`);
+        }
+      }
+
+      if (entry.priority !== undefined && !PRIORITIES.includes(entry.priority as SkillPriority)) {
+        report('error', `"priority" must be one of ${PRIORITIES.map((priority) => `"${priority}"`).join(', ')}`);
+      }
+
+      this.validateMatching(entry, report);
+      this.validatePlaceholders(entry, report);
+      this.validateRelationships(entry, ids, report);
+      const structureValid = this.validateSource(entry, report);
+
+      if (structureValid) {
+        await this.validateContent(downloader, entry as unknown as Skill, report);
+      }
+    }
+
+    return findings;
+  }
+
+  private validateMatching(
+    entry: Record<string, unknown>,
+    report: (level: ValidationLevel, message: string) => void
+  ): void {
+    if (entry.matchingLibraries === undefined && entry.match === undefined) {
+      report('error', 'needs "matchingLibraries" or "match"');
+      return;
+    }
+
+    if (entry.matchingLibraries !== undefined) {
+      if (!Array.isArray(entry.matchingLibraries)) {
+        report('error', '"matchingLibraries" must be an array');
+      } else {
+        if (entry.matchingLibraries.length === 0 && entry.match === undefined) {
+          report('warning', '"matchingLibraries" is empty: the skill never matches');
+        }
+        for (const library of entry.matchingLibraries) {
+          if (!isObject(library) || typeof library.name !== 'string' || library.name === '') {
+            report('error', 'every matching library needs a "name"');
+          } else if (typeof library.versionRange !== 'string' || validRange(library.versionRange) === null) {
+            report('error', `invalid versionRange ${JSON.stringify(library.versionRange)} for ${library.name}`);
+          } else if (library.devOnly && library.prodOnly) {
+            report('error', `${library.name} cannot be both devOnly and prodOnly`);
+          }
+        }
+      }
+    }
+
+    if (entry.match !== undefined) {
+      this.validateCondition(entry.match, 'match', report);
+    }
+  }
+
+  /**
+   * Check the `placeholders` declarations
+   */
+  private validatePlaceholders(
+    entry: Record<string, unknown>,
+    report: (level: ValidationLevel, message: string) => void
+  ): void {
+    if (entry.placeholders === undefined) return;
+    if (!isObject(entry.placeholders)) {
+      report('error', '"placeholders" must map placeholder names to declarations');
+      return;
+    }
+    for (const [name, placeholder] of Object.entries(entry.placeholders)) {
+      if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+        report('error', `placeholder name "${name}" must be an identifier (it is written {{${name}}})`);
+      }
+      if (!isObject(placeholder)) {
+        report('error', `placeholder "${name}" must be an object`);
+        continue;
+      }
+      if (typeof placeholder.description !== 'string' || placeholder.description === '') {
+        report('error', `placeholder "${name}" needs a "description"`);
+      }
+      if (!PLACEHOLDER_TYPES.includes(placeholder.type as PlaceholderType)) {
+        report('error', `placeholder "${name}" needs a "type": ${PLACEHOLDER_TYPES.join(', ')}`);
+      }
+      if (placeholder.detect !== undefined &&
+          !(Array.isArray(placeholder.detect) && placeholder.detect.every((glob) => typeof glob === 'string'))) {
+        report('error', `placeholder "${name}": "detect" must be an array of globs`);
+      }
+      if (placeholder.default !== undefined && typeof placeholder.default !== 'string') {
+        report('error', `placeholder "${name}": "default" must be a string`);
+      }
+      if (placeholder.replaces !== undefined && (typeof placeholder.replaces !== 'string' || placeholder.replaces === '')) {
+        report('error', `placeholder "${name}": "replaces" must be a non-empty string`);
+      }
+    }
+  }
+
+  /**
+   * Check `supersedes`, `conflictsWith` and `requires` point at skills of the index
+   */
+  private validateRelationships(
+    entry: Record<string, unknown>,
+    ids: Set<unknown>,
+    report: (level: ValidationLevel, message: string) => void
+  ): void {
+    for (const field of ['supersedes', 'conflictsWith', 'requires']) {
+      const value = entry[field];
+      if (value === undefined) continue;
+      if (!Array.isArray(value) || !value.every((id) => typeof id === 'string')) {
+        report('error', `"${field}" must be an array of skill ids`);
+        continue;
+      }
+      for (const id of value) {
+        if (id === entry.id) {
+          report('error', `"${field}" cannot reference the skill itself`);
+        } else if (!ids.has(id)) {
+          report(field === 'requires' ? 'error' : 'warning', `"${field}" references unknown skill "${id}"`);
+        }
+      }
+    }
+  }
+
+  /**
+   * Check a `match` condition and its nested groups
+   */
+  private validateCondition(
+    condition: unknown,
+    location: string,
+    report: (level: ValidationLevel, message: string) => void
+  ): void {
+    if (!isObject(condition)) {
+      report('error', `${location} must be an object`);
+      return;
+    }
+
+    if ('library' in condition) {
+      if (typeof condition.library !== 'string' || condition.library === '') {
+        report('error', `${location}.library must be a package name`);
+      }
+      if (condition.versionRange !== undefined &&
+          (typeof condition.versionRange !== 'string' || validRange(condition.versionRange) === null)) {
+        report('error', `${location}: invalid versionRange ${JSON.stringify(condition.versionRange)}`);
+      }
+      if (condition.devOnly && condition.prodOnly) {
+        report('error', `${location} cannot be both devOnly and prodOnly`);
+      }
+      return;
+    }
+
+    if ('file' in condition) {
+      if (typeof condition.file !== 'string' || condition.file === '' || condition.file.startsWith('/')) {
+        report('error', `${location}.file must be a glob relative to the project`);
+      }
+      return;
+    }
+
+    const groups = (['allOf', 'anyOf', 'noneOf'] as const).filter((key) => condition[key] !== undefined);
+    if (groups.length === 0) {
+      report('error', `${location} needs "library", "file", "allOf", "anyOf" or "noneOf"`);
+      return;
+    }
+    for (const key of groups) {
+      const children = condition[key];
+      if (!Array.isArray(children)) {
+        report('error', `${location}.${key} must be an array`);
+        continue;
+      }
+      children.forEach((child, index) => this.validateCondition(child, `${location}.${key}[${index}]`, report));
+    }
+  }
+
+  /**
+   * Check the source fields. Returns false when the entry cannot be fetched as written.
+   */
+  private validateSource(
+    entry: Record<string, unknown>,
+    report: (level: ValidationLevel, message: string) => void
+  ): boolean {
+    const sources = SOURCE_FIELDS.filter((field) => entry[field] !== undefined);
+    if (sources.length !== 1) {
+      report('error', sources.length === 0
+        ? `needs one of ${SOURCE_FIELDS.map((field) => `"${field}"`).join(', ')}`
+        : `has several sources (${sources.join(', ')}): keep exactly one`);
+      return false;
+    }
+    if (typeof entry[sources[0]] !== 'string' || entry[sources[0]] === '') {
+      report('error', `"${sources[0]}" must be a non-empty string`);
+      return false;
+    }
+
+    let valid = true;
+    if (typeof entry.skillsShUrl === 'string' && !parseSkillsShUrl(entry.skillsShUrl)) {
+      report('error', `malformed skills.sh URL "${entry.skillsShUrl}" (expected https://skills.sh/{org}/{repo}/{skill})`);
+      valid = false;
+    }
+
+    if (entry.files !== undefined) {
+      if (entry.path === undefined && entry.skillsShUrl === undefined) {
+        report('error', '"files" can only be used with "path" or "skillsShUrl"');
+        valid = false;
+      } else if (!Array.isArray(entry.files)) {
+        report('error', '"files" must be an array');
+        valid = false;
+      } else {
+        for (const file of entry.files) {
+          if (!isObject(file) || typeof file.path !== 'string') {
+            report('error', 'every file needs a "path"');
+            valid = false;
+            continue;
+          }
+          try {
+            normalizeSkillPath(file.path);
+          } catch (error) {
+            report('error', error instanceof Error ? error.message : String(error));
+            valid = false;
+          }
+          if (entry.skillsShUrl !== undefined && file.url !== undefined) {
+            report('error', `file "${file.path}" of a skills.sh skill cannot have a "url"`);
+            valid = false;
+          }
+          if (file.integrity !== undefined && !INTEGRITY_PATTERN.test(String(file.integrity))) {
+            report('error', `file "${file.path}" has a malformed integrity`);
+            valid = false;
+          }
+        }
+      }
+    }
+
+    if (entry.tarballRoot !== undefined && entry.tarball === undefined) {
+      report('warning', '"tarballRoot" is ignored without "tarball"');
+    }
+    if (entry.integrity !== undefined && !INTEGRITY_PATTERN.test(String(entry.integrity))) {
+      report('error', `malformed integrity ${JSON.stringify(entry.integrity)} (expected sha256-<base64>)`);
+      valid = false;
+    }
+    if (entry.overrides !== undefined &&
+        !(Array.isArray(entry.overrides) && entry.overrides.every((id) => typeof id === 'string'))) {
+      report('error', '"overrides" must be an array of skill ids');
+    }
+
+    return valid;
+  }
+
+  /**
+   * Fetch the skill like an install would, then check its main file
+   */
+  private async validateContent(
+    downloader: SkillDownloader,
+    skill: Skill,
+    report: (level: ValidationLevel, message: string) => void
+  ): Promise<void> {
+    let main: string | Buffer | undefined;
+    try {
+      main = (await downloader.fetchSkillContent(skill)).get(SKILL_MAIN_FILE);
+    } catch (error) {
+      report('error', error instanceof Error ? error.message : String(error));
+      return;
+    }
+
+    if (typeof main !== 'string' || main.trim() === '') {
+      report('error', `${SKILL_MAIN_FILE} is empty`);
+      return;
+    }
+
+    const tokens = findPlaceholders(skill, main);
+    for (const [name, placeholder] of Object.entries(skill.placeholders ?? {})) {
+      if (tokens.includes(name)) {
+        report('warning', `{{${name}}} is installed as it is by clients up to 1.0.7: write a sample value and name it in "replaces"`);
+      } else if (placeholder.replaces && !main.includes(placeholder.replaces)) {
+        report('warning', `placeholder "${name}": "replaces" text is not in ${SKILL_MAIN_FILE}`);
+      }
+    }
+
+    try {
+      const { data, body } = parseFrontmatter(main);
+      if (Object.keys(data).length === 0) {
+        report('warning', 'no frontmatter: agents use "name" and "description" to decide when to load a skill');
+      } else if (typeof data.name !== 'string' || typeof data.description !== 'string') {
+        report('warning', 'frontmatter should have "name" and "description"');
+      }
+      if (body.trim() === '') {
+        report('error', `${SKILL_MAIN_FILE} has frontmatter but no content`);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      report('warning', `${message}: targets that rewrite frontmatter install the skill without it`);
+    }
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,50 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mergeThreeWay, summarizeDiff } from '../src/diff.js';
+
+const lines = (...values: string[]) => values.join('\n');
+
+describe('mergeThreeWay', () => {
+  const base = lines('one', 'two', 'three', 'four', 'five');
+
+  it('keeps local edits and applies upstream changes elsewhere', () => {
+    const local = lines('one (mine)', 'two', 'three', 'four', 'five');
+    const upstream = lines('one', 'two', 'three', 'four', 'five (new)', 'six');
+
+    assert.deepEqual(mergeThreeWay(base, local, upstream), {
+      content: lines('one (mine)', 'two', 'three', 'four', 'five (new)', 'six'),
+      conflicts: 0,
+    });
+  });
+
+  it('takes the same change made on both sides once', () => {
+    const both = lines('one', 'two', 'THREE', 'four', 'five');
+
+    assert.deepEqual(mergeThreeWay(base, both, both), { content: both, conflicts: 0 });
+  });
+
+  it('marks overlapping changes that differ as a conflict', () => {
+    const local = lines('one', 'two', 'mine', 'four', 'five');
+    const upstream = lines('one', 'two', 'theirs', 'four', 'five');
+
+    assert.deepEqual(mergeThreeWay(base, local, upstream), {
+      content: lines('one', 'two', '<<<<<<< local', 'mine', '=======', 'theirs', '>>>>>>> upstream', 'four', 'five'),
+      conflicts: 1,
+    });
+  });
+
+  it('handles deletions and an empty base', () => {
+    const local = lines('one', 'three', 'four', 'five');
+    const upstream = lines('one', 'two', 'three', 'four', 'five', 'six');
+
+    assert.equal(mergeThreeWay(base, local, upstream).content, lines('one', 'three', 'four', 'five', 'six'));
+    assert.deepEqual(mergeThreeWay('', '', 'new'), { content: 'new', conflicts: 0 });
+  });
+});
+
+describe('summarizeDiff', () => {
+  it('counts added and removed lines', () => {
+    assert.deepEqual(summarizeDiff(lines('a', 'b', 'c'), lines('a', 'B', 'c', 'd')), { added: 2, removed: 1 });
+    assert.deepEqual(summarizeDiff('same', 'same'), { added: 0, removed: 0 });
+  });
+});
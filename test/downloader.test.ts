@@ -0,0 +1,239 @@
+import { describe, it, before, after, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type IncomingHttpHeaders, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { SkillDownloader } from '../src/downloader.js';
+import { computeIntegrity } from '../src/integrity.js';
+import { DEFAULT_CONFIG, type Config, type Skill } from '../src/types.js';
+
+interface Route {
+  status?: number;
+  body?: string;
+  etag?: string;
+}
+
+const INDEX = JSON.stringify({ version: '1.0.0', skills: [] });
+
+const SKILLS_SH_TREE = JSON.stringify({
+  tree: [
+    { path: 'skills/lists/SKILL.md', type: 'blob' },
+    { path: 'skills/lists/references/flat-list.md', type: 'blob' },
+    { path: 'skills/other/SKILL.md', type: 'blob' },
+  ],
+});
+
+describe('SkillDownloader over HTTP', () => {
+  let server: Server;
+  let baseUrl: string;
+  let cacheDirectory: string;
+  let routes: Record<string, Route | Route[]>;
+  let requests: { url: string; headers: IncomingHttpHeaders }[];
+  const environment = { ...process.env };
+
+  const downloader = (config: Partial<Config> = {}) => new SkillDownloader({
+    ...DEFAULT_CONFIG,
+    registryUrl: `${baseUrl}/registry`,
+    githubRawUrl: `${baseUrl}/raw`,
+    githubApiUrl: `${baseUrl}/api`,
+    cacheDirectory,
+    ...config,
+  });
+  const requested = (url: string) => requests.filter((request) => request.url === url);
+
+  before(async () => {
+    server = createServer((request, response) => {
+      requests.push({ url: request.url!, headers: request.headers });
+      const route = routes[request.url!];
+      // A list of routes answers successive requests, the last one repeating
+      const answer = Array.isArray(route) ? (route.length > 1 ? route.shift()! : route[0]) : route;
+      if (!answer) {
+        response.statusCode = 404;
+        response.end();
+        return;
+      }
+      if (answer.etag && request.headers['if-none-match'] === answer.etag) {
+        response.statusCode = 304;
+        response.end();
+        return;
+      }
+      response.statusCode = answer.status ?? 200;
+      if (answer.etag) response.setHeader('ETag', answer.etag);
+      response.end(answer.body ?? '');
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    // Only the credentials set by the tests below
+    for (const name of ['HELP_ME_AI_TOKEN', 'GITHUB_TOKEN']) delete process.env[name];
+    process.env.NETRC = join(tmpdir(), 'help-me-ai-test-no-netrc');
+  });
+
+  beforeEach(async () => {
+    cacheDirectory = await mkdtemp(join(tmpdir(), 'help-me-ai-test-'));
+    routes = {};
+    requests = [];
+  });
+
+  afterEach(async () => {
+    await rm(cacheDirectory, { recursive: true, force: true });
+  });
+
+  after(async () => {
+    process.env = environment;
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('fetches the index and revalidates the cached copy with its ETag', async () => {
+    routes['/registry/index.json'] = { body: INDEX, etag: '"v1"' };
+
+    assert.deepEqual(await downloader().fetchIndex(), { version: '1.0.0', skills: [] });
+    assert.deepEqual(await downloader().fetchIndex(), { version: '1.0.0', skills: [] });
+
+    const [first, second] = requested('/registry/index.json');
+    assert.equal(first.headers['if-none-match'], undefined);
+    assert.equal(second.headers['if-none-match'], '"v1"');
+  });
+
+  it('serves the cache offline and fails for what was never fetched', async () => {
+    routes['/registry/index.json'] = { body: INDEX };
+    await downloader().fetchIndex();
+
+    const offline = downloader({ cacheMode: 'offline' });
+    assert.deepEqual(await offline.fetchIndex(), { version: '1.0.0', skills: [] });
+    assert.equal(offline.getStaleResponses().length, 1);
+    assert.equal(requested('/registry/index.json').length, 1);
+
+    await assert.rejects(
+      downloader({ cacheMode: 'offline', registryUrl: `${baseUrl}/other` }).fetchIndex(),
+      /not available offline/
+    );
+  });
+
+  it('falls back to the cached copy when the network is down', async () => {
+    const mirror = createServer((_request, response) => response.end(INDEX));
+    await new Promise<void>((resolve) => mirror.listen(0, '127.0.0.1', resolve));
+    const registryUrl = `http://127.0.0.1:${(mirror.address() as AddressInfo).port}`;
+    await downloader({ registryUrl }).fetchIndex();
+    mirror.closeAllConnections();
+    await new Promise((resolve) => mirror.close(resolve));
+
+    const down = downloader({ registryUrl });
+    assert.deepEqual(await down.fetchIndex(), { version: '1.0.0', skills: [] });
+    assert.equal(down.getStaleResponses().length, 1);
+  });
+
+  it('retries server errors before giving up', async () => {
+    routes['/registry/index.json'] = [{ status: 502 }, { body: INDEX }];
+
+    assert.deepEqual(await downloader().fetchIndex(), { version: '1.0.0', skills: [] });
+    assert.equal(requested('/registry/index.json').length, 2);
+
+    // Unlike network errors, a server that keeps failing is reported even with a cached copy
+    routes['/registry/index.json'] = { status: 503 };
+    await assert.rejects(downloader().fetchIndex(), /Failed to fetch skills index: 503 Service Unavailable/);
+    assert.equal(requested('/registry/index.json').length, 5);
+  });
+
+  it('authenticates with the registry tokenEnv and expands HELP_ME_AI_ variables only', async () => {
+    routes['/registry/index.json'] = { body: INDEX };
+    process.env.HELP_ME_AI_TEST_TOKEN = 'secret';
+    process.env.HELP_ME_AI_TEST_TEAM = 'core';
+    process.env.OTHER_SECRET = 'leak';
+
+    await downloader({
+      registries: [{ url: `${baseUrl}/registry`, tokenEnv: 'HELP_ME_AI_TEST_TOKEN' }],
+    }).fetchIndex();
+    await downloader({
+      cacheMode: 'refresh',
+      registries: [{ url: `${baseUrl}/registry`, headers: { 'X-Team': '${HELP_ME_AI_TEST_TEAM}${OTHER_SECRET}' } }],
+    }).fetchIndex();
+
+    const [token, headers] = requested('/registry/index.json');
+    assert.equal(token.headers.authorization, 'Bearer secret');
+    assert.equal(headers.headers['x-team'], 'core');
+  });
+
+  it('explains a 401 without credentials', async () => {
+    routes['/registry/index.json'] = { status: 401 };
+
+    await assert.rejects(downloader().fetchIndex(), /401 Unauthorized \(authentication required/);
+  });
+
+  it('checks skill files against their pinned integrity', async () => {
+    routes['/registry/skills/a.md'] = { body: '# A' };
+    routes['/registry/skills/references/b.md'] = { body: 'B' };
+    const skill: Skill = {
+      id: 'a',
+      name: 'A',
+      description: '',
+      author: '',
+      path: 'skills/a.md',
+      files: [{ path: 'references/b.md' }],
+    };
+
+    const pinned = await downloader().pinSkill(skill);
+    assert.equal(pinned.integrity, computeIntegrity('# A'));
+    assert.deepEqual(pinned.files, [{ path: 'references/b.md', integrity: computeIntegrity('B') }]);
+
+    const files = await downloader({ allowUnpinned: false }).fetchSkillContent(pinned);
+    assert.deepEqual([...files.entries()], [['SKILL.md', '# A'], ['references/b.md', 'B']]);
+
+    await assert.rejects(downloader({ allowUnpinned: false }).fetchSkillContent(skill), /is not pinned/);
+    routes['/registry/skills/references/b.md'] = { body: 'changed' };
+    await assert.rejects(downloader({ cacheMode: 'refresh' }).fetchSkillContent(pinned), /Integrity check failed/);
+  });
+
+  describe('skills.sh skills', () => {
+    const skill: Skill = {
+      id: 'lists',
+      name: 'Lists',
+      description: '',
+      author: '',
+      skillsShUrl: 'https://skills.sh/acme/skills/lists',
+    };
+
+    beforeEach(() => {
+      routes['/raw/acme/skills/main/skills/lists/SKILL.md'] = { body: '# Lists' };
+      routes['/raw/acme/skills/main/skills/lists/references/flat-list.md'] = { body: 'Flat' };
+    });
+
+    it('installs the other files of the skill folder, listed through the API', async () => {
+      routes['/api/repos/acme/skills/git/trees/main?recursive=1'] = { body: SKILLS_SH_TREE };
+
+      const files = await downloader().fetchSkillContent(skill);
+      assert.deepEqual([...files.keys()], ['SKILL.md', 'references/flat-list.md']);
+    });
+
+    it('installs only the main file when the listing is refused', async () => {
+      routes['/api/repos/acme/skills/git/trees/main?recursive=1'] = { status: 403, body: 'rate limited' };
+
+      const files = await downloader().fetchSkillContent(skill);
+      assert.deepEqual([...files.keys()], ['SKILL.md']);
+    });
+
+    it('pins the folder files and installs them without listing', async () => {
+      routes['/api/repos/acme/skills/git/trees/main?recursive=1'] = { body: SKILLS_SH_TREE };
+      await assert.rejects(downloader({ allowUnpinned: false }).fetchSkillContent({
+        ...skill,
+        integrity: computeIntegrity('# Lists'),
+      }), /no integrity for https:\/\/skills.sh\/acme\/skills\/lists\/references\/flat-list.md/);
+
+      const pinned = await downloader().pinSkill(skill);
+      assert.deepEqual(pinned.files, [{ path: 'references/flat-list.md', integrity: computeIntegrity('Flat') }]);
+
+      requests = [];
+      const files = await downloader({ allowUnpinned: false, cacheMode: 'refresh' }).fetchSkillContent(pinned);
+      assert.deepEqual([...files.keys()], ['SKILL.md', 'references/flat-list.md']);
+      assert.equal(requests.some((request) => request.url.startsWith('/api/')), false);
+    });
+
+    it('previews the main file without listing the folder', async () => {
+      assert.equal(await downloader().fetchMainFile(skill), '# Lists');
+      assert.equal(requests.some((request) => request.url.startsWith('/api/')), false);
+    });
+  });
+});
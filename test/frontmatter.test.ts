@@ -0,0 +1,78 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseFrontmatter, stringifyFrontmatter, stripFrontmatter } from '../src/frontmatter.js';
+
+describe('parseFrontmatter', () => {
+  it('parses scalars and lists', () => {
+    const { data, body } = parseFrontmatter([
+      '---',
+      'name: testing',
+      'description: "Testing: what and how"',
+      'alwaysApply: false',
+      'globs:',
+      '  - "**/*.test.ts"',
+      '- "**/*.spec.ts"',
+      'tags: []',
+      '---',
+      '# Testing',
+    ].join('\n'));
+
+    assert.deepEqual(data, {
+      name: 'testing',
+      description: 'Testing: what and how',
+      alwaysApply: false,
+      globs: ['**/*.test.ts', '**/*.spec.ts'],
+      tags: [],
+    });
+    assert.equal(body, '# Testing');
+  });
+
+  it('joins wrapped scalars and block scalars', () => {
+    const { data } = parseFrontmatter([
+      '---',
+      'description: Use when writing',
+      '  tests for React components',
+      'literal: |',
+      '  line one',
+      '  line two',
+      'folded: >-',
+      '  one',
+      '  paragraph',
+      '',
+      '  next',
+      '---',
+      '',
+    ].join('\n'));
+
+    assert.equal(data.description, 'Use when writing tests for React components');
+    assert.equal(data.literal, 'line one\nline two');
+    assert.equal(data.folded, 'one paragraph\nnext');
+  });
+
+  it('skips nested maps', () => {
+    const { data } = parseFrontmatter('---\nname: skill\nmetadata:\n  author: vercel\n  version: "1.0"\n---\nbody');
+
+    assert.deepEqual(data, { name: 'skill' });
+  });
+
+  it('returns the whole content as body without frontmatter', () => {
+    assert.deepEqual(parseFrontmatter('# Title\n---\n'), { data: {}, body: '# Title\n---\n' });
+  });
+
+  it('throws on lines it cannot parse, which stripFrontmatter still removes', () => {
+    const content = '---\nname: skill\n: nope\n---\nbody';
+
+    assert.throws(() => parseFrontmatter(content), /Invalid frontmatter on line 3/);
+    assert.equal(stripFrontmatter(content), 'body');
+  });
+});
+
+describe('stringifyFrontmatter', () => {
+  it('round-trips through parseFrontmatter', () => {
+    const data = { name: 'skill', description: 'Quotes: "yes"', globs: ['**/*.ts'] };
+    const parsed = parseFrontmatter(stringifyFrontmatter(data, '# Skill\n'));
+
+    assert.deepEqual(parsed.data, data);
+    assert.equal(parsed.body.trim(), '# Skill');
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { SkillDownloader } from '../src/downloader.js';
+import { computeIntegrity, matchesIntegrity } from '../src/integrity.js';
+import { normalizeSkillPath } from '../src/paths.js';
+import { extractTarball } from '../src/tarball.js';
+import { DEFAULT_CONFIG, type Skill } from '../src/types.js';
+import { createTarball } from './helpers.js';
+
+describe('integrity', () => {
+  it('computes Subresource Integrity hashes', () => {
+    assert.equal(computeIntegrity('hello'), 'sha256-LPJNul+wow4m6DsqxbninhsWHlwfp0JecwQzYpOLmCQ=');
+    assert.match(computeIntegrity('hello', 'sha512'), /^sha512-/);
+  });
+
+  it('accepts content matching any of several hashes', () => {
+    const integrity = `sha512-bm90IHRoaXM= ${computeIntegrity('hello', 'sha384')}`;
+
+    assert.equal(matchesIntegrity('hello', integrity), true);
+    assert.equal(matchesIntegrity('hello!', integrity), false);
+  });
+
+  it('refuses integrity strings without a supported algorithm', () => {
+    assert.throws(() => matchesIntegrity('hello', 'md5-XUFAKrxLKna5cZ2REBfFkg=='), /Unsupported integrity/);
+  });
+});
+
+describe('normalizeSkillPath', () => {
+  it('normalizes separators, ./ and trailing slashes', () => {
+    assert.equal(normalizeSkillPath('./references\\lists.md'), 'references/lists.md');
+    assert.equal(normalizeSkillPath('rules//a/../b.md'), 'rules/b.md');
+    assert.equal(normalizeSkillPath('scripts/'), 'scripts');
+  });
+
+  it('rejects paths that escape the skill folder', () => {
+    for (const path of ['/etc/passwd', '../secrets', 'a/../../b', 'C:\\Windows', '..', '.', 'a\0b']) {
+      assert.throws(() => normalizeSkillPath(path), /Unsafe path/, path);
+    }
+  });
+});
+
+describe('tarball skills', () => {
+  let directory: string;
+  let downloader: SkillDownloader;
+  const tarballSkill = (file: string, fields: Partial<Skill> = {}): Skill => ({
+    id: 'archived',
+    name: 'Archived',
+    description: '',
+    author: '',
+    tarball: file,
+    ...fields,
+  });
+
+  before(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'help-me-ai-test-'));
+    downloader = new SkillDownloader({
+      ...DEFAULT_CONFIG,
+      registryUrl: pathToFileURL(directory).href,
+      cacheDirectory: join(directory, 'cache'),
+    });
+    await writeFile(join(directory, 'github.tgz'), createTarball({
+      'skills-main/skills/archived/SKILL.md': '# Archived',
+      'skills-main/skills/archived/references/a.md': 'A',
+      'skills-main/README.md': 'readme',
+    }));
+    await writeFile(join(directory, 'unsafe.tgz'), createTarball({ 'SKILL.md': '# Unsafe', '../escape.md': 'out' }));
+  });
+
+  after(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('extracts the files of an archive', () => {
+    const files = extractTarball(createTarball({ './SKILL.md': 'main', 'references/a.md': 'A' }));
+
+    assert.deepEqual([...files.keys()], ['SKILL.md', 'references/a.md']);
+    assert.equal(files.get('SKILL.md')?.toString(), 'main');
+  });
+
+  it('drops the top-level folder of GitHub archives and keeps the tarballRoot folder', async () => {
+    const files = await downloader.fetchSkillContent(tarballSkill('github.tgz', { tarballRoot: 'skills/archived' }));
+
+    assert.deepEqual([...files.keys()].sort(), ['SKILL.md', 'references/a.md']);
+  });
+
+  it('refuses archive entries that escape the skill folder', async () => {
+    await assert.rejects(downloader.fetchSkillContent(tarballSkill('unsafe.tgz')), /Unsafe path/);
+  });
+
+  it('checks the archive against its pinned integrity', async () => {
+    const pinned = await downloader.pinSkill(tarballSkill('github.tgz', { tarballRoot: 'skills/archived' }));
+
+    await downloader.fetchSkillContent(pinned);
+    await assert.rejects(
+      downloader.fetchSkillContent({ ...pinned, integrity: computeIntegrity('something else') }),
+      /Integrity check failed for skill archived/
+    );
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SkillMatcher } from '../src/matcher.js';
+import { ProjectFiles } from '../src/project-files.js';
+import { describeMatch, rankMatches, scoreMatch } from '../src/ranking.js';
+import type { Dependency, MatchedSkill, Skill, SkillsIndex } from '../src/types.js';
+
+function skill(id: string, fields: Partial<Skill> = {}): Skill {
+  return { id, name: id, description: '', author: '', path: `skills/${id}.md`, ...fields };
+}
+
+function index(...skills: Skill[]): SkillsIndex {
+  return { version: '1.0.0', skills };
+}
+
+const dependencies: Dependency[] = [
+  { name: 'react', version: '18.2.0', isDev: false },
+  { name: 'jest', version: '29.7.0', isDev: true },
+  { name: '@types/react', version: '18.2.0', isDev: true },
+];
+
+const ids = (matches: MatchedSkill[]) => matches.map((match) => match.skill.id).sort();
+
+describe('SkillMatcher', () => {
+  const matcher = new SkillMatcher();
+
+  it('matches matchingLibraries on name and version range', () => {
+    const matches = matcher.matchSkills(dependencies, index(
+      skill('react-18', { matchingLibraries: [{ name: 'react', versionRange: '^18.0.0' }] }),
+      skill('react-19', { matchingLibraries: [{ name: 'react', versionRange: '>=19.0.0' }] }),
+      skill('vue', { matchingLibraries: [{ name: 'vue', versionRange: '*' }] })
+    ));
+
+    assert.deepEqual(ids(matches), ['react-18']);
+    assert.deepEqual(matches[0].dependency, dependencies[0]);
+  });
+
+  it('requires every allOf condition, library and file alike', () => {
+    const expo = skill('expo', { match: { allOf: [{ library: 'react' }, { file: 'app.json' }] } });
+
+    assert.deepEqual(ids(matcher.matchSkills(dependencies, index(expo))), []);
+
+    const [match] = matcher.matchSkills(dependencies, index(expo), new ProjectFiles(['app.json', 'src/index.ts']));
+    assert.equal(match.skill.id, 'expo');
+    assert.deepEqual(match.explanation.files, ['app.json']);
+  });
+
+  it('needs one anyOf condition and lists every one that held', () => {
+    const testing = skill('testing', {
+      match: { anyOf: [{ library: 'jest' }, { library: 'vitest' }, { library: 'react', versionRange: '^18.0.0' }] },
+    });
+    const [match] = matcher.matchSkills(dependencies, index(testing));
+
+    assert.deepEqual(match.explanation.libraries.map((library) => library.name), ['jest', 'react']);
+    assert.deepEqual(ids(matcher.matchSkills([], index(testing))), []);
+  });
+
+  it('rejects a skill when a noneOf condition holds', () => {
+    const skills = index(
+      skill('jest-only', { match: { allOf: [{ library: 'jest' }], noneOf: [{ library: 'react' }] } }),
+      skill('no-vitest', { match: { allOf: [{ library: 'jest' }], noneOf: [{ library: 'vitest' }] } })
+    );
+
+    assert.deepEqual(ids(matcher.matchSkills(dependencies, skills)), ['no-vitest']);
+  });
+
+  it('evaluates nested groups and devOnly / prodOnly', () => {
+    const skills = index(
+      skill('nested', {
+        match: { allOf: [{ anyOf: [{ library: 'vitest' }, { allOf: [{ library: 'jest', devOnly: true }] }] }] },
+      }),
+      skill('prod-jest', { match: { allOf: [{ library: 'jest', prodOnly: true }] } })
+    );
+
+    assert.deepEqual(ids(matcher.matchSkills(dependencies, skills)), ['nested']);
+  });
+
+  it('keeps every workspace that has the library', () => {
+    const monorepo: Dependency[] = [
+      { name: 'react', version: '18.2.0', isDev: false, workspace: 'apps/web' },
+      { name: 'react', version: '18.3.1', isDev: false, workspace: 'apps/mobile' },
+    ];
+    const [match] = new SkillMatcher().matchSkills(monorepo, index(
+      skill('react', { matchingLibraries: [{ name: 'react', versionRange: '^18.0.0' }] })
+    ));
+
+    assert.deepEqual(match.explanation.libraries.map((library) => library.workspace), ['apps/web', 'apps/mobile']);
+  });
+
+  it('applies include, exclude and ignoreDependencies', () => {
+    const configured = new SkillMatcher({ include: ['always'], exclude: ['react'], ignoreDependencies: ['@types/*'] });
+    const matches = configured.matchSkills(dependencies, index(
+      skill('always'),
+      skill('react', { matchingLibraries: [{ name: 'react', versionRange: '*' }] }),
+      skill('types', { matchingLibraries: [{ name: '@types/react', versionRange: '*' }] })
+    ));
+
+    assert.deepEqual(ids(matches), ['always']);
+    assert.equal(matches[0].explanation.included, true);
+  });
+});
+
+describe('ranking', () => {
+  const match = (id: string, fields: Partial<MatchedSkill> = {}, skillFields: Partial<Skill> = {}): MatchedSkill => ({
+    skill: skill(id, skillFields),
+    dependency: dependencies[0],
+    score: 0,
+    explanation: { libraries: [], files: [], included: false },
+    ...fields,
+  });
+  const react = (range: string, workspace?: string) => ({
+    name: 'react',
+    version: '18.2.0',
+    workspace,
+    range,
+    kind: range === '*' ? 'wildcard' as const : 'version' as const,
+  });
+
+  it('scores priority, version ranges, files and includes', () => {
+    assert.equal(scoreMatch(match('plain')), 40);
+    assert.equal(scoreMatch(match('critical', {}, { priority: 'critical' })), 70);
+    assert.equal(scoreMatch(match('low', {}, { priority: 'low' })), 25);
+    assert.equal(scoreMatch(match('version', { explanation: { libraries: [react('^18.0.0')], files: [], included: false } })), 60);
+    assert.equal(scoreMatch(match('wildcard', { explanation: { libraries: [react('*')], files: [], included: false } })), 50);
+    assert.equal(scoreMatch(match('files', { explanation: { libraries: [], files: ['a', 'b', 'c'], included: true } })), 80);
+  });
+
+  it('counts a library matched in several workspaces once', () => {
+    const libraries = [react('^18.0.0', 'apps/web'), react('^18.0.0', 'apps/mobile')];
+
+    assert.equal(scoreMatch(match('monorepo', { explanation: { libraries, files: [], included: false } })), 60);
+    assert.equal(
+      describeMatch(match('monorepo', { explanation: { libraries, files: [], included: false } })),
+      'react@18.2.0 (^18.0.0)'
+    );
+  });
+
+  it('lowers superseded skills and sorts the most relevant first', () => {
+    const ranked = rankMatches([
+      match('superseded', { supersededBy: 'critical' }),
+      match('plain'),
+      match('critical', {}, { priority: 'critical' }),
+    ]);
+
+    assert.deepEqual(ranked.map((m) => [m.skill.id, m.score]), [['critical', 70], ['plain', 40], ['superseded', 0]]);
+  });
+
+  it('describes skills pulled in without a match of their own by their dependency', () => {
+    assert.equal(describeMatch(match('required')), 'react@18.2.0');
+  });
+});
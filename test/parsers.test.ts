@@ -0,0 +1,226 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { LockfileReader } from '../src/parsers/lockfile.js';
+import { NpmParser } from '../src/parsers/npm.js';
+import { WorkspaceResolver } from '../src/parsers/workspaces.js';
+
+/**
+ * Write files into a new temporary directory, marked as a git root so lockfile lookup stops there
+ */
+async function createProject(files: Record<string, string | object>): Promise<string> {
+  const directory = await mkdtemp(join(tmpdir(), 'help-me-ai-test-'));
+  await mkdir(join(directory, '.git'));
+  for (const [path, content] of Object.entries(files)) {
+    await mkdir(dirname(join(directory, path)), { recursive: true });
+    await writeFile(join(directory, path), typeof content === 'string' ? content : JSON.stringify(content));
+  }
+  return directory;
+}
+
+describe('LockfileReader', () => {
+  const reader = new LockfileReader();
+  const directories: string[] = [];
+  const read = async (files: Record<string, string | object>) => {
+    const directory = await createProject(files);
+    directories.push(directory);
+    return reader.read(directory);
+  };
+
+  after(async () => {
+    await Promise.all(directories.map((directory) => rm(directory, { recursive: true, force: true })));
+  });
+
+  it('reads package-lock.json v3 packages, nested ones included', async () => {
+    const lockfile = await read({
+      'package-lock.json': {
+        lockfileVersion: 3,
+        packages: {
+          '': { name: 'app' },
+          'node_modules/react': { version: '18.2.0' },
+          'node_modules/@tanstack/react-query': { version: '5.8.4' },
+          'node_modules/lib/node_modules/react': { version: '17.0.2' },
+          'packages/ui': { version: '1.0.0' },
+        },
+      },
+    });
+
+    assert.equal(lockfile?.packageManager, 'npm');
+    assert.deepEqual(lockfile?.versions.get('react'), ['18.2.0', '17.0.2']);
+    assert.deepEqual(lockfile?.versions.get('@tanstack/react-query'), ['5.8.4']);
+    assert.equal(lockfile?.versions.has('packages/ui'), false);
+  });
+
+  it('reads package-lock.json v1 nested dependencies', async () => {
+    const lockfile = await read({
+      'package-lock.json': {
+        lockfileVersion: 1,
+        dependencies: { react: { version: '16.14.0', dependencies: { 'loose-envify': { version: '1.4.0' } } } },
+      },
+    });
+
+    assert.deepEqual(lockfile?.versions.get('react'), ['16.14.0']);
+    assert.deepEqual(lockfile?.versions.get('loose-envify'), ['1.4.0']);
+  });
+
+  it('reads classic and berry yarn.lock entries, skipping workspaces', async () => {
+    const classic = await read({
+      'yarn.lock': [
+        '# yarn lockfile v1',
+        '',
+        '"@babel/core@^7.0.0", "@babel/core@^7.1.0":',
+        '  version "7.23.2"',
+        '  resolved "https://registry.yarnpkg.com/@babel/core/-/core-7.23.2.tgz"',
+        '',
+        'react@^18.2.0:',
+        '  version "18.2.0"',
+      ].join('\n'),
+    });
+    assert.equal(classic?.packageManager, 'yarn');
+    assert.deepEqual(classic?.versions.get('@babel/core'), ['7.23.2']);
+    assert.deepEqual(classic?.versions.get('react'), ['18.2.0']);
+
+    const berry = await read({
+      'yarn.lock': [
+        '__metadata:',
+        '  version: 6',
+        '',
+        '"react@npm:^18.2.0":',
+        '  version: 18.2.0',
+        '',
+        '"ui@workspace:packages/ui":',
+        '  version: 0.0.0-use.local',
+      ].join('\n'),
+    });
+    assert.deepEqual(berry?.versions.get('react'), ['18.2.0']);
+    assert.equal(berry?.versions.has('ui'), false);
+    assert.equal(berry?.versions.has('__metadata'), false);
+  });
+
+  it('reads pnpm-lock.yaml v5, v6 and v9 keys without peer suffixes', async () => {
+    const lockfile = await read({
+      'pnpm-lock.yaml': [
+        "lockfileVersion: '9.0'",
+        '',
+        'importers:',
+        '  .:',
+        '    dependencies:',
+        '',
+        'packages:',
+        '  /react-dom/17.0.2_react@17.0.2:',
+        '    resolution: {}',
+        "  '@tanstack/react-query@5.8.4(react@18.2.0)':",
+        '    resolution: {}',
+        '  /zod@3.22.4:',
+        '    resolution: {}',
+        '',
+        'snapshots:',
+        '  react@18.2.0:',
+        '    dependencies: {}',
+      ].join('\n'),
+    });
+
+    assert.equal(lockfile?.packageManager, 'pnpm');
+    assert.deepEqual(lockfile?.versions.get('react-dom'), ['17.0.2']);
+    assert.deepEqual(lockfile?.versions.get('@tanstack/react-query'), ['5.8.4']);
+    assert.deepEqual(lockfile?.versions.get('zod'), ['3.22.4']);
+    assert.deepEqual(lockfile?.versions.get('react'), ['18.2.0']);
+  });
+
+  it('reads bun.lock despite trailing commas', async () => {
+    const lockfile = await read({
+      'bun.lock': '{\n  "lockfileVersion": 1,\n  "packages": {\n    "react": ["react@19.0.0", "", {}, "sha512-x"],\n  },\n}\n',
+    });
+
+    assert.equal(lockfile?.packageManager, 'bun');
+    assert.deepEqual(lockfile?.versions.get('react'), ['19.0.0']);
+  });
+
+  it('finds the lockfile of the repository root from a workspace package', async () => {
+    const lockfile = await read({
+      'package-lock.json': { lockfileVersion: 3, packages: { 'node_modules/react': { version: '18.2.0' } } },
+      'packages/ui/package.json': { name: 'ui' },
+    });
+    const nested = await reader.read(join(dirname(lockfile!.path), 'packages', 'ui'));
+
+    assert.equal(nested?.path, lockfile?.path);
+  });
+
+  it('picks the version a range selects among several installed ones', () => {
+    const lockfile = { packageManager: 'npm', path: '', versions: new Map([['react', ['17.0.2', '18.2.0']]]) };
+
+    assert.equal(reader.resolveVersion(lockfile, 'react', '^17.0.0'), '17.0.2');
+    assert.equal(reader.resolveVersion(lockfile, 'react', '>=16'), '18.2.0');
+    assert.equal(reader.resolveVersion(lockfile, 'react', 'workspace:*'), null);
+    assert.equal(reader.resolveVersion(lockfile, 'vue', '^3.0.0'), null);
+  });
+});
+
+describe('WorkspaceResolver', () => {
+  let directory: string;
+
+  before(async () => {
+    directory = await createProject({
+      'package.json': { name: 'root', workspaces: ['apps/*', 'packages/**', '!packages/internal'] },
+      'apps/web/package.json': { name: 'web' },
+      'apps/docs/README.md': 'not a package',
+      'packages/ui/package.json': { name: '@acme/ui' },
+      'packages/tools/lint/package.json': {},
+      'packages/internal/package.json': { name: 'internal' },
+      'pnpm-workspace.yaml': "packages:\n  - 'tooling/*'\n",
+      'tooling/config/package.json': { name: 'config' },
+    });
+  });
+
+  after(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('expands package.json and pnpm-workspace.yaml globs into packages', async () => {
+    const workspaces = await new WorkspaceResolver().resolve(directory);
+
+    assert.deepEqual(workspaces, [
+      { name: 'web', path: 'apps/web' },
+      { name: 'packages/tools/lint', path: 'packages/tools/lint' },
+      { name: '@acme/ui', path: 'packages/ui' },
+      { name: 'config', path: 'tooling/config' },
+    ]);
+  });
+});
+
+describe('NpmParser', () => {
+  let directory: string;
+
+  before(async () => {
+    directory = await createProject({
+      'package.json': {
+        name: 'root',
+        workspaces: ['packages/*'],
+        devDependencies: { jest: '^29.0.0' },
+      },
+      'packages/app/package.json': { name: 'app', dependencies: { react: '^18.0.0', 'shared-ui': 'workspace:*' } },
+      'yarn.lock': 'jest@^29.0.0:\n  version "29.7.0"\n\nreact@^18.0.0:\n  version "18.2.0"\n',
+    });
+  });
+
+  after(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('collects root and workspace dependencies with their installed versions', async () => {
+    const result = await new NpmParser().parse(directory);
+
+    assert.equal(result.packageManager, 'yarn');
+    assert.deepEqual(result.workspaces, [{ name: 'app', path: 'packages/app' }]);
+    assert.deepEqual(
+      result.dependencies.find((dependency) => dependency.name === 'jest'),
+      { name: 'jest', version: '29.7.0', isDev: true, workspace: undefined }
+    );
+    assert.deepEqual(
+      result.dependencies.find((dependency) => dependency.name === 'react'),
+      { name: 'react', version: '18.2.0', isDev: false, workspace: 'packages/app' }
+    );
+  });
+});
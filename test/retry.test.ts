@@ -0,0 +1,86 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { fetchWithRetry, type RetryOptions } from '../src/retry.js';
+
+const OPTIONS: RetryOptions = { timeout: 1000, retries: 2, backoff: 100 };
+
+describe('fetchWithRetry', () => {
+  let server: Server;
+  let baseUrl: string;
+  const attempts = new Map<string, number>();
+
+  before(async () => {
+    server = createServer((request, response) => {
+      const count = (attempts.get(request.url!) ?? 0) + 1;
+      attempts.set(request.url!, count);
+
+      if (request.url === '/flaky' && count < 3) {
+        response.statusCode = 503;
+        response.end('unavailable');
+      } else if (request.url === '/down') {
+        response.statusCode = 500;
+        response.end('broken');
+      } else if (request.url === '/missing') {
+        response.statusCode = 404;
+        response.end();
+      } else if (request.url === '/stall' && count === 1) {
+        // Headers arrive, the body never does
+        response.writeHead(200, { 'Content-Length': '10' });
+        response.write('part');
+      } else {
+        response.end(`ok after ${count}`);
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('retries 5xx responses with exponential backoff', async () => {
+    const waits: number[] = [];
+    const { response, body } = await fetchWithRetry(`${baseUrl}/flaky`, {}, OPTIONS, async (ms) => waits.push(ms));
+
+    assert.equal(response.status, 200);
+    assert.equal(body.toString(), 'ok after 3');
+    assert.deepEqual(waits, [100, 200]);
+  });
+
+  it('returns the last 5xx response once retries are exhausted', async () => {
+    const waits: number[] = [];
+    const { response, body } = await fetchWithRetry(`${baseUrl}/down`, {}, OPTIONS, async (ms) => waits.push(ms));
+
+    assert.equal(response.status, 500);
+    assert.equal(body.toString(), 'broken');
+    assert.deepEqual(waits, [100, 200]);
+  });
+
+  it('does not retry other responses', async () => {
+    const waits: number[] = [];
+    const { response } = await fetchWithRetry(`${baseUrl}/missing`, {}, OPTIONS, async (ms) => waits.push(ms));
+
+    assert.equal(response.status, 404);
+    assert.deepEqual(waits, []);
+  });
+
+  it('retries a body that stalls past the timeout', async () => {
+    const { body } = await fetchWithRetry(`${baseUrl}/stall`, {}, { ...OPTIONS, timeout: 200 }, async () => {});
+
+    assert.equal(body.toString(), 'ok after 2');
+  });
+
+  it('throws the network error after the last retry', async () => {
+    const waits: number[] = [];
+    // Nothing listens on port 9 (discard) here
+    await assert.rejects(
+      fetchWithRetry('http://127.0.0.1:9/', {}, OPTIONS, async (ms) => waits.push(ms)),
+      /fetch failed/
+    );
+    assert.deepEqual(waits, [100, 200]);
+  });
+});